@@ -0,0 +1,121 @@
+// Usage: node scripts/build-schema-snapshot.js <path to an unpacked @ianlucas/cs2-lib package>
+//
+// Builds the bundled item schema snapshot in static/schema from the item data of
+// https://github.com/ianlucas/cs2-lib (MIT), so the server can boot without fetching a schema:
+//
+//   npm pack @ianlucas/cs2-lib && tar xzf ianlucas-cs2-lib-*.tgz
+//   node scripts/build-schema-snapshot.js package
+
+const fs = require('fs')
+const path = require('path')
+const { createHash } = require('crypto')
+const { pathToFileURL } = require('url')
+
+const IMAGE_BASE_URL = 'https://cdn.cstrike.app'
+const OUTPUT_DIR = path.join(__dirname, '../static/schema')
+
+// Weapon rarity colors in cs2-lib, mapped to the rarity values of inspect responses
+const RARITIES = {
+    '#ded6cc': 0,
+    '#b0c3d9': 1,
+    '#5e98d9': 2,
+    '#4b69ff': 3,
+    '#8847ff': 4,
+    '#d32ce6': 5,
+    '#eb4b4b': 6,
+    '#e4ae39': 7,
+}
+
+const packageDir = process.argv[2]
+if (!packageDir) {
+    console.error('Usage: node scripts/build-schema-snapshot.js <path to an unpacked @ianlucas/cs2-lib package>')
+    process.exit(1)
+}
+
+const load = (file) => import(pathToFileURL(path.resolve(packageDir, 'dist', file)).href)
+
+async function main() {
+    const { version } = JSON.parse(fs.readFileSync(path.resolve(packageDir, 'package.json'), 'utf8'))
+    const { CS2_ITEMS: items } = await load('items.mjs')
+    const { english } = await load('translations/english.mjs')
+
+    const schema = {
+        weapons: {},
+        stickers: {},
+        agents: {},
+        graffiti: {},
+        keychains: {},
+        collections: {},
+    }
+
+    const skinTypes = ['weapon', 'melee', 'glove']
+    const nameOf = (item) => english[item.id].name
+    const imageOf = (item) => (item.image ? `${IMAGE_BASE_URL}${item.image}` : '')
+
+    for (const item of items.filter((item) => skinTypes.includes(item.type) && item.base)) {
+        schema.weapons[item.def] = { name: nameOf(item), paints: {} }
+    }
+
+    for (const item of items.filter((item) => skinTypes.includes(item.type) && !item.base)) {
+        const weapon = schema.weapons[item.def]
+        if (!weapon || item.index === undefined) continue
+
+        // Doppler phases share the paint name, the phase is part of it in the schema: "Doppler (Phase 2)"
+        let name = nameOf(item).split(' | ').slice(1).join(' | ')
+        if (item.altName && name.includes('Doppler')) {
+            name = `${name} (${item.altName})`
+        }
+
+        weapon.paints[item.index] = {
+            name,
+            image: imageOf(item),
+            min: item.wearMin ?? 0,
+            max: item.wearMax ?? 1,
+            rarity: RARITIES[item.rarity],
+            collection: item.collection,
+        }
+
+        if (item.collection) {
+            schema.collections[item.collection] = schema.collections[item.collection] ?? {
+                name: english[item.id].collectionName ?? item.collection,
+                items: [],
+            }
+            schema.collections[item.collection].items.push({ defindex: item.def, paintindex: item.index })
+        }
+    }
+
+    for (const item of items) {
+        if (item.type === 'sticker' || item.type === 'patch') {
+            schema.stickers[item.index] = { market_hash_name: nameOf(item) }
+        } else if (item.type === 'keychain') {
+            schema.keychains[item.index] = { market_hash_name: nameOf(item) }
+        } else if (item.type === 'agent') {
+            schema.agents[item.def] = { market_hash_name: nameOf(item).replace(/^Agent \| /, ''), image: imageOf(item) }
+        } else if (item.type === 'graffiti') {
+            // Tinted copies share the index, the name without the tint is the one the schema uses
+            if (item.tint && schema.graffiti[item.index]) continue
+            const name = item.tint ? nameOf(item).replace(/ \([^)]+\)$/, '') : nameOf(item)
+            schema.graffiti[item.index] = { market_hash_name: name.replace(/^Graffiti \| /, 'Sealed Graffiti | ') }
+        }
+    }
+
+    // Same version format as SchemaService: <timestamp>-<first 8 hex of the SHA-1 of the JSON>
+    const json = JSON.stringify(schema)
+    const hash = createHash('sha1').update(json).digest('hex').substring(0, 8)
+    const timestamp = new Date().toISOString().replace(/\D/g, '').substring(0, 14)
+    const file = path.join(OUTPUT_DIR, `schema-${timestamp}-${hash}.json`)
+
+    fs.mkdirSync(OUTPUT_DIR, { recursive: true })
+    fs.writeFileSync(file, json)
+
+    console.log(
+        `Wrote ${file} from @ianlucas/cs2-lib ${version}: ${Object.keys(schema.weapons).length} weapons, ` +
+        `${Object.keys(schema.stickers).length} stickers, ${Object.keys(schema.keychains).length} keychains, ` +
+        `${Object.keys(schema.agents).length} agents, ${Object.keys(schema.graffiti).length} graffiti`,
+    )
+}
+
+main().catch((error) => {
+    console.error('Failed to build the schema snapshot:', error)
+    process.exit(1)
+})
@@ -0,0 +1,60 @@
+// Usage: node scripts/create-api-key.js <name> [--routes=/,/inspect,/float,/bulk] [--rpm=60] [--daily=10000] [--priority=normal]
+
+require('dotenv/config')
+const crypto = require('crypto')
+const mongoose = require('mongoose')
+
+const [name, ...flags] = process.argv.slice(2)
+
+if (!name) {
+    console.error(
+        'Usage: node scripts/create-api-key.js <name> [--routes=/,/inspect,/float,/bulk] [--rpm=60] [--daily=10000] [--priority=normal]',
+    )
+    process.exit(1)
+}
+
+if (!process.env.DATABASE_URL) {
+    console.error('DATABASE_URL is not defined')
+    process.exit(1)
+}
+
+const options = Object.fromEntries(
+    flags.map((flag) => {
+        const [key, value] = flag.replace(/^--/, '').split('=')
+        return [key, value]
+    }),
+)
+
+if (options.priority && !['high', 'normal', 'low'].includes(options.priority)) {
+    console.error('Priority must be one of high, normal or low')
+    process.exit(1)
+}
+
+async function main() {
+    await mongoose.connect(process.env.DATABASE_URL)
+
+    // The plain key is printed once, only its SHA-256 is stored
+    const key = crypto.randomBytes(32).toString('hex')
+    const hash = crypto.createHash('sha256').update(key).digest('hex')
+
+    await mongoose.connection.collection('inspect_api_keys').insertOne({
+        hash,
+        name,
+        routes: options.routes ? options.routes.split(',') : ['*'],
+        requestsPerMinute: parseInt(options.rpm || '60', 10),
+        dailyQuota: parseInt(options.daily || '0', 10),
+        maxPriority: options.priority || 'normal',
+        enabled: true,
+        dailyUsage: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    })
+
+    console.log(`Created API key "${name}": ${key}`)
+    await mongoose.disconnect()
+}
+
+main().catch((error) => {
+    console.error('Error creating API key:', error)
+    process.exit(1)
+})
@@ -0,0 +1,98 @@
+// Usage: npm run build && node scripts/migrate-unique-ids.js [--dry-run]
+//
+// Re-keys inspect_assets and inspect_history with the current uniqueId fingerprint.
+// History entries follow the asset they were written for; the script can be run again safely.
+
+require('dotenv/config')
+const mongoose = require('mongoose')
+
+let fingerprint
+try {
+    fingerprint = require('../dist/modules/inspect/fingerprint')
+} catch (error) {
+    console.error('dist/modules/inspect/fingerprint.js not found, run npm run build first')
+    process.exit(1)
+}
+
+const { FINGERPRINT_FIELDS, generateUniqueId, isSameItem } = fingerprint
+const dryRun = process.argv.includes('--dry-run')
+const BATCH_SIZE = 1000
+
+if (!process.env.DATABASE_URL) {
+    console.error('DATABASE_URL is not defined')
+    process.exit(1)
+}
+
+async function flush(collection, operations) {
+    if (operations.length > 0 && !dryRun) {
+        await collection.bulkWrite(operations, { ordered: false })
+    }
+    operations.length = 0
+}
+
+async function main() {
+    await mongoose.connect(process.env.DATABASE_URL)
+    const assets = mongoose.connection.collection('inspect_assets')
+    const history = mongoose.connection.collection('inspect_history')
+
+    // Old uniqueId to new uniqueId, and the item that holds each new uniqueId
+    const renamed = new Map()
+    const owners = new Map()
+    const operations = []
+    let collisions = 0
+    let unchanged = 0
+
+    for await (const asset of assets.find({}).sort({ createdAt: 1 })) {
+        // Same rule as InspectService.resolveUniqueId: the first salt no other item holds
+        let uniqueId = generateUniqueId(asset)
+        const owner = owners.get(uniqueId)
+        if (owner && !isSameItem(owner, asset)) {
+            for (let salt = 1; owners.has(uniqueId) && !isSameItem(owners.get(uniqueId), asset); salt++) {
+                uniqueId = generateUniqueId(asset, salt)
+            }
+            collisions++
+        }
+        owners.set(uniqueId, Object.fromEntries(FINGERPRINT_FIELDS.map((field) => [field, asset[field]])))
+
+        if (uniqueId === asset.uniqueId) {
+            unchanged++
+            continue
+        }
+
+        renamed.set(asset.uniqueId, uniqueId)
+        operations.push({ updateOne: { filter: { _id: asset._id }, update: { $set: { uniqueId } } } })
+        if (operations.length >= BATCH_SIZE) {
+            await flush(assets, operations)
+        }
+    }
+    await flush(assets, operations)
+    console.log(`inspect_assets: ${renamed.size} re-keyed, ${unchanged} unchanged, ${collisions} collisions salted`)
+
+    let rekeyed = 0
+    let orphaned = 0
+    for await (const entry of history.find({}, { projection: { uniqueId: 1 } })) {
+        const uniqueId = renamed.get(entry.uniqueId)
+        if (!uniqueId) {
+            if (!owners.has(entry.uniqueId)) orphaned++
+            continue
+        }
+
+        rekeyed++
+        operations.push({ updateOne: { filter: { _id: entry._id }, update: { $set: { uniqueId } } } })
+        if (operations.length >= BATCH_SIZE) {
+            await flush(history, operations)
+        }
+    }
+    await flush(history, operations)
+    console.log(`inspect_history: ${rekeyed} re-keyed, ${orphaned} entries without a matching asset left as is`)
+
+    if (dryRun) {
+        console.log('Dry run, nothing was written')
+    }
+    await mongoose.disconnect()
+}
+
+main().catch((error) => {
+    console.error('Error migrating uniqueIds:', error)
+    process.exit(1)
+})
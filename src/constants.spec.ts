@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import {
+    findWeaponKey,
+    getPatternInfo,
+    getPatternName,
+    getPatternSeeds,
+    getWeaponName,
+} from 'src/constants';
+import { PatternInfo } from 'src/modules/inspect/interfaces/schema.interface';
+import { getFadePercentage } from 'src/modules/inspect/fade-calculator';
+
+type Patterns = Record<string, Record<string, number[]>>;
+
+const readJson = (file: string) => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+// The files the lookups read, tested as shipped
+const TABLES: Array<[string, string, PatternInfo['type']]> = [
+    ['Case Hardened', 'static/ch-patterns.json', 'case_hardened'],
+    ['Marble Fade', 'static/marble-fade-patterns.json', 'marble_fade'],
+];
+
+const PHASED_TABLES: Array<[string, string, PatternInfo['type'], string[]]> = [
+    ['Doppler', 'static/doppler-patterns.json', 'doppler', ['Phase 1', 'Phase 2', 'Phase 3', 'Phase 4', 'Ruby', 'Sapphire', 'Black Pearl']],
+    ['Gamma Doppler', 'static/gamma-doppler-patterns.json', 'gamma_doppler', ['Phase 1', 'Phase 2', 'Phase 3', 'Phase 4', 'Emerald']],
+];
+
+const expectSeeds = (patterns: Record<string, number[]>) => {
+    const seeds = Object.values(patterns).flat();
+
+    for (const seed of seeds) {
+        expect(Number.isInteger(seed) && seed >= 0 && seed <= 1000).toBe(true);
+    }
+    // A seed names exactly one pattern
+    expect(new Set(seeds).size).toBe(seeds.length);
+};
+
+describe('constants', () => {
+    it('knows every weapon listed in the pattern files', () => {
+        const files = [...TABLES, ...PHASED_TABLES].map(([, file]) => file);
+
+        for (const weapon of new Set(files.flatMap(file => Object.keys(readJson(file))))) {
+            const name = getWeaponName(weapon);
+            expect(name).toBeDefined();
+            expect(findWeaponKey(`★ ${name} | Doppler (Phase 2)`)).toBe(weapon);
+        }
+    });
+
+    it('calculates fades by the finish in the name', () => {
+        const fade = getFadePercentage('Karambit', 412);
+        const amber = getFadePercentage('MAC-10', 412, 'Amber Fade');
+        const acid = getFadePercentage('SSG 08', 412, 'Acid Fade');
+
+        expect(getPatternInfo('★ Karambit | Fade (Factory New)', 412)).toMatchObject({ type: 'fade', fade_rank: fade.ranking });
+        expect(getPatternInfo('MAC-10 | Amber Fade (Factory New)', 412)).toMatchObject({ type: 'amber_fade', fade_rank: amber.ranking });
+        expect(getPatternInfo('SSG 08 | Acid Fade (Factory New)', 412)).toMatchObject({ type: 'acid_fade', fade_rank: acid.ranking });
+        expect(getPatternInfo('MAC-10 | Fade (Factory New)', 412)).toMatchObject({ type: 'fade' });
+        expect(getPatternInfo('★ Karambit | Marble Fade (Factory New)', 412)).toMatchObject({ type: 'marble_fade' });
+        expect(getPatternSeeds('acid_fade', 'ssg08', getPatternName('SSG 08 | Acid Fade (Factory New)', 412))).toContain(412);
+    });
+
+    describe.each(TABLES)('%s patterns', (finish, file, type) => {
+        const table: Patterns = readJson(file);
+
+        describe.each(Object.keys(table))('%s', (weapon) => {
+            const marketHashName = `${getWeaponName(weapon)} | ${finish} (Field-Tested)`;
+
+            it('lists every seed once', () => {
+                expectSeeds(table[weapon]);
+            });
+
+            it('finds every listed seed', () => {
+                for (const [pattern, seeds] of Object.entries(table[weapon])) {
+                    for (const seed of seeds) {
+                        expect(getPatternName(marketHashName, seed)).toBe(pattern);
+                        expect(getPatternInfo(marketHashName, seed)).toEqual({ type, tier: pattern, source: file });
+                    }
+                    expect(getPatternSeeds(type, weapon, pattern)).toEqual(seeds);
+                }
+            });
+
+            it('has no pattern for the other seeds', () => {
+                const listed = new Set(Object.values(table[weapon]).flat());
+                const seed = [...Array(1001).keys()].find(seed => !listed.has(seed));
+
+                expect(getPatternName(marketHashName, seed)).toBeUndefined();
+                expect(getPatternInfo(marketHashName, seed)).toEqual({ type, source: file });
+            });
+        });
+    });
+
+    describe.each(PHASED_TABLES)('%s patterns', (finish, file, type, phases) => {
+        const table: Record<string, Record<string, Record<string, number[]>>> = readJson(file);
+
+        describe.each(Object.keys(table))('%s', (weapon) => {
+            const marketHashName = (phase: string) => `★ ${getWeaponName(weapon)} | ${finish} (${phase})`;
+
+            it('lists phases of the finish and every seed once per phase', () => {
+                for (const [phase, patterns] of Object.entries(table[weapon])) {
+                    expect(phases).toContain(phase);
+                    expectSeeds(patterns);
+                }
+            });
+
+            it('finds every listed seed within its phase', () => {
+                for (const [phase, patterns] of Object.entries(table[weapon])) {
+                    for (const [pattern, seeds] of Object.entries(patterns)) {
+                        for (const seed of seeds) {
+                            expect(getPatternName(marketHashName(phase), seed, phase)).toBe(pattern);
+                            expect(getPatternInfo(marketHashName(phase), seed, phase)).toEqual({ type, tier: pattern, source: file });
+                        }
+                        expect(getPatternSeeds(type, weapon, pattern, phase)).toEqual(seeds);
+                    }
+                }
+            });
+
+            it('does not take seeds from another phase', () => {
+                for (const [phase, patterns] of Object.entries(table[weapon])) {
+                    for (const seed of Object.values(patterns).flat()) {
+                        expect(getPatternName(marketHashName(phase), seed)).toBeNull();
+
+                        for (const other of phases.filter(other => other !== phase)) {
+                            const otherSeeds = Object.values(table[weapon][other] ?? {}).flat();
+                            if (!otherSeeds.includes(seed)) {
+                                expect(getPatternName(marketHashName(other), seed, other)).toBeUndefined();
+                            }
+                        }
+                    }
+                }
+            });
+        });
+
+        it('has no patterns for weapons without the finish', () => {
+            expect(getPatternSeeds(type, 'ak47', 'Max Blue', 'Phase 4')).toEqual([]);
+        });
+    });
+});
@@ -1,14 +1,17 @@
-const fs = require('fs');
+import { PatternInfo } from 'src/modules/inspect/interfaces/schema.interface';
+import { FadeFinish, findFadeWeapon, getFadePercentage, getFadePercentages } from 'src/modules/inspect/fade-calculator';
 
-const dopplerPatterns = {};
-const gammaPatterns = {};
+const fs = require('fs');
 
 const chPatterns = JSON.parse(fs.readFileSync('static/ch-patterns.json', 'utf8'));
 const marblePatterns = JSON.parse(fs.readFileSync('static/marble-fade-patterns.json', 'utf8'));
-const fadePatterns = JSON.parse(fs.readFileSync('static/fade-percentages.json', 'utf8'));
+// Doppler patterns depend on the phase: weapon -> phase -> pattern -> seeds
+const dopplerPatterns = JSON.parse(fs.readFileSync('static/doppler-patterns.json', 'utf8'));
+const gammaPatterns = JSON.parse(fs.readFileSync('static/gamma-doppler-patterns.json', 'utf8'));
 
 const weaponNames = {
     "bayonet": "Bayonet",
+    "bowie": "Bowie Knife",
     "butterfly": "Butterfly Knife",
     "classic": "Classic Knife",
     "falchion": "Falchion Knife",
@@ -21,14 +24,14 @@ const weaponNames = {
     "nomad": "Nomad Knife",
     "paracord": "Paracord Knife",
     "skeleton": "Skeleton Knife",
-    "stilleto": "Stilleto Knife",
+    "stilleto": "Stiletto Knife",
     "survival": "Survival Knife",
     "talon": "Talon Knife",
     "ursus": "Ursus Knife",
     'kukri': 'Kukri Knife',
     'awp': 'AWP',
     'mp9': 'MP9',
-    'five_seven': 'Five-Seven',
+    'five_seven': 'Five-SeveN',
     'ak47': 'AK-47',
     'glock': 'Glock-18',
     'm4a4': 'M4A4',
@@ -50,36 +53,174 @@ const weaponNames = {
     'sawed-off': 'Sawed-Off',
     'nova': 'Nova',
     'mag7': 'MAG-7',
+    'aug': 'AUG',
+    'galil': 'Galil AR',
+    'p2000': 'P2000',
+};
+
+// Longest names first so "M9 Bayonet" is not taken for "Bayonet"
+const weaponKeysByName = Object.keys(weaponNames).sort((a, b) => weaponNames[b].length - weaponNames[a].length);
+
+/**
+ * Weapon key (see weaponNames) of a market hash name, or of a key or weapon name given as is
+ */
+export const findWeaponKey = (name: string): string | undefined => {
+    const lower = name.toLowerCase();
+    if (weaponNames[lower]) {
+        return lower;
+    }
+    return weaponKeysByName.find(key => weaponNames[key].toLowerCase() === lower)
+        || weaponKeysByName.find(key => name.includes(weaponNames[key]));
 };
 
+export const getWeaponName = (weaponKey: string): string | undefined => weaponNames[weaponKey];
+
 const patternTypes = {
     'Case Hardened': 'ch',
     'Marble Fade': 'marble',
+    'Amber Fade': 'amber',
+    'Acid Fade': 'acid',
     'Fade': 'fade',
     'Gamma Doppler': 'gamma',
     'Doppler': 'doppler'
 };
 
-export const getPatternName = (marketHashName: string, paintSeed: number) => {
-    const weaponKey = Object.keys(weaponNames).find(key => marketHashName.includes(weaponNames[key]));
+const patterns = {
+    'ch': chPatterns,
+    'marble': marblePatterns,
+    'doppler': dopplerPatterns,
+    'gamma': gammaPatterns
+};
+
+const patternSources = {
+    'ch': 'static/ch-patterns.json',
+    'marble': 'static/marble-fade-patterns.json',
+    'fade': 'fade-calculator',
+    'amber': 'fade-calculator',
+    'acid': 'fade-calculator',
+    'doppler': 'static/doppler-patterns.json',
+    'gamma': 'static/gamma-doppler-patterns.json',
+};
+
+const patternInfoTypes: Record<string, PatternInfo['type']> = {
+    'ch': 'case_hardened',
+    'marble': 'marble_fade',
+    'fade': 'fade',
+    'amber': 'amber_fade',
+    'acid': 'acid_fade',
+    'doppler': 'doppler',
+    'gamma': 'gamma_doppler',
+};
+
+const fadeFinishes: Record<string, FadeFinish> = {
+    'fade': 'Fade',
+    'amber': 'Amber Fade',
+    'acid': 'Acid Fade',
+};
+
+/**
+ * Fades are calculated from the seed instead of looked up
+ */
+const getFade = (key: string, marketHashName: string, paintSeed: number) => {
+    const weapon = findFadeWeapon(marketHashName, fadeFinishes[key]);
+    return weapon ? getFadePercentage(weapon, paintSeed, fadeFinishes[key]) : null;
+};
+
+const formatFadePercentage = (percentage: number) => {
+    return Number.isInteger(percentage) ? percentage.toString() : percentage.toFixed(2);
+};
+
+export const getPatternInfo = (marketHashName: string, paintSeed: number, phase?: string): PatternInfo | null => {
+    const weaponKey = findWeaponKey(marketHashName);
+    const type = Object.keys(patternTypes).find(key => marketHashName.includes(key)) || null;
+
+    if (type && fadeFinishes[patternTypes[type]]) {
+        const key = patternTypes[type];
+        const fade = getFade(key, marketHashName, paintSeed);
+        return fade ? {
+            type: patternInfoTypes[key],
+            percentage: parseFloat(formatFadePercentage(fade.percentage)),
+            fade_rank: fade.ranking,
+            source: patternSources[key],
+        } : null;
+    }
+
+    if (!type || !weaponKey) {
+        return null;
+    }
+
+    const key = patternTypes[type];
+    const info: PatternInfo = { type: patternInfoTypes[key], source: patternSources[key] };
+    const name = getPatternName(marketHashName, paintSeed, phase);
+
+    if (name) {
+        info.tier = name;
+    }
+
+    return info;
+};
+
+export const getPatternName = (marketHashName: string, paintSeed: number, phase?: string) => {
+    const weaponKey = findWeaponKey(marketHashName);
     const type = Object.keys(patternTypes).find(key => marketHashName.includes(key)) || null;
 
+    if (type && fadeFinishes[patternTypes[type]]) {
+        const fade = getFade(patternTypes[type], marketHashName, paintSeed);
+        return fade ? formatFadePercentage(fade.percentage) : null;
+    }
+
     if (!type || !weaponKey) {
         return null;
     }
 
-    const patterns = {
-        'ch': chPatterns,
-        'marble': marblePatterns,
-        'fade': fadePatterns,
-        'doppler': dopplerPatterns,
-        'gamma': gammaPatterns
-    };
+    let pattern = patterns[patternTypes[type]];
+    if (patternTypes[type] === 'doppler' || patternTypes[type] === 'gamma') {
+        if (!phase) {
+            return null;
+        }
+        pattern = { [weaponKey]: pattern[weaponKey]?.[phase] };
+    }
 
-    const pattern = patterns[patternTypes[type]];
     return pattern[weaponKey] ? Object.keys(pattern[weaponKey]).find(key => pattern[weaponKey][key].includes(paintSeed)) : null;
 };
 
+/**
+ * Seeds of a named pattern, the reverse of getPatternName. Fades are named by their percentage, e.g. 99.5 or 99.50
+ */
+export const getPatternSeeds = (type: PatternInfo['type'], weaponKey: string, pattern: string, phase?: string): number[] => {
+    const key = Object.keys(patternInfoTypes).find(key => patternInfoTypes[key] === type);
+
+    if (fadeFinishes[key]) {
+        const percentage = parseFloat(pattern);
+        return Number.isNaN(percentage) ? [] : getFadeSeeds(type, weaponKey, percentage, percentage);
+    }
+
+    let seeds = patterns[key]?.[weaponKey];
+    if (key === 'doppler' || key === 'gamma') {
+        seeds = phase ? seeds?.[phase] : undefined;
+    }
+
+    return seeds?.[pattern] ?? [];
+};
+
+/**
+ * Seeds of a fade with a percentage between min and max, both inclusive and compared at the two decimals getPatternName returns
+ */
+export const getFadeSeeds = (type: PatternInfo['type'], weaponKey: string, min = 0, max = 100): number[] => {
+    const key = Object.keys(patternInfoTypes).find(key => patternInfoTypes[key] === type);
+    const weapon = fadeFinishes[key] && findFadeWeapon(getWeaponName(weaponKey) ?? '', fadeFinishes[key]);
+    if (!weapon) {
+        return [];
+    }
+
+    return getFadePercentages(weapon, fadeFinishes[key])
+        .filter(fade => {
+            const percentage = parseFloat(fade.percentage.toFixed(2));
+            return percentage >= min && percentage <= max;
+        })
+        .map(fade => fade.seed);
+};
+
 export const dopplers = {
     418: 'Phase 1',
     419: 'Phase 2',
@@ -0,0 +1,22 @@
+import { createParamDecorator, ExecutionContext, SetMetadata } from '@nestjs/common'
+
+export const SERVES_DOCUMENTATION = 'servesDocumentation'
+export const CHARGE_PER_ITEM = 'chargePerItem'
+
+/**
+ * Marks a route that renders the HTML documentation when called without query parameters,
+ * which stays reachable without an API key
+ */
+export const ServesDocumentation = () => SetMetadata(SERVES_DOCUMENTATION, true)
+
+/**
+ * Charges a request once per entry of an array in its body instead of once, e.g. per link of a bulk request
+ */
+export const ChargePerItem = (field: string) => SetMetadata(CHARGE_PER_ITEM, field)
+
+/**
+ * The API key the guard authenticated the request with, undefined when keys are disabled
+ */
+export const CurrentApiKey = createParamDecorator(
+    (_data: unknown, context: ExecutionContext) => context.switchToHttp().getRequest().apiKey,
+)
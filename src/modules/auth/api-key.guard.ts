@@ -0,0 +1,87 @@
+import {
+    CanActivate,
+    ExecutionContext,
+    HttpException,
+    HttpStatus,
+    Injectable,
+} from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { ApiKeyService } from './api-key.service'
+import { CHARGE_PER_ITEM, SERVES_DOCUMENTATION } from './api-key.decorator'
+
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+    constructor(
+        private readonly apiKeyService: ApiKeyService,
+        private readonly reflector: Reflector,
+    ) {}
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        if (!this.apiKeyService.isEnabled()) {
+            return true
+        }
+
+        const request = context.switchToHttp().getRequest()
+        const reply = context.switchToHttp().getResponse()
+
+        const servesDocumentation = this.reflector.get<boolean>(SERVES_DOCUMENTATION, context.getHandler())
+        if (servesDocumentation && Object.keys(request.query ?? {}).length === 0) {
+            return true
+        }
+
+        // password is the name the key had before API keys were enforced, still accepted
+        const key = request.headers['x-api-key'] ?? request.query?.key ?? request.query?.password
+        if (!key || typeof key !== 'string') {
+            throw new HttpException('Missing API key, pass it in the X-API-Key header or the key query parameter', HttpStatus.UNAUTHORIZED)
+        }
+
+        const apiKey = await this.apiKeyService.findByKey(key)
+        if (!apiKey || !apiKey.enabled) {
+            throw new HttpException('Invalid API key', HttpStatus.UNAUTHORIZED)
+        }
+
+        const route = request.routeOptions?.url ?? request.routerPath
+        if (!this.apiKeyService.isRouteAllowed(apiKey, route)) {
+            throw new HttpException(`API key is not allowed to call ${route}`, HttpStatus.FORBIDDEN)
+        }
+
+        const usage = await this.apiKeyService.consume(apiKey, this.getCost(context, request))
+
+        reply.header('X-RateLimit-Limit', usage.minuteLimit)
+        reply.header('X-RateLimit-Remaining', usage.minuteRemaining)
+        reply.header('X-RateLimit-Reset', Math.ceil(usage.minuteReset / 1000))
+        if (usage.dailyLimit > 0) {
+            reply.header('X-RateLimit-Daily-Limit', usage.dailyLimit)
+            reply.header('X-RateLimit-Daily-Remaining', usage.dailyRemaining)
+        }
+
+        if (!usage.allowed) {
+            const retryAfter = usage.reason === 'minute'
+                ? Math.ceil((usage.minuteReset - Date.now()) / 1000)
+                : this.secondsUntilMidnight()
+            reply.header('Retry-After', retryAfter)
+
+            throw new HttpException(
+                usage.reason === 'minute'
+                    ? `Rate limit of ${usage.minuteLimit} requests per minute exceeded, ${usage.minuteRemaining} left`
+                    : `Daily quota of ${usage.dailyLimit} requests exceeded, ${usage.dailyRemaining} left`,
+                HttpStatus.TOO_MANY_REQUESTS,
+            )
+        }
+
+        request.apiKey = apiKey
+        return true
+    }
+
+    private getCost(context: ExecutionContext, request: any): number {
+        const field = this.reflector.get<string>(CHARGE_PER_ITEM, context.getHandler())
+        const items = field ? request.body?.[field] : undefined
+        return Array.isArray(items) ? Math.max(items.length, 1) : 1
+    }
+
+    private secondsUntilMidnight(): number {
+        const now = new Date()
+        const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+        return Math.ceil((midnight - now.getTime()) / 1000)
+    }
+}
@@ -0,0 +1,75 @@
+import { ApiKeyService } from './api-key.service';
+
+const exec = <T>(value: T) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+describe('ApiKeyService', () => {
+    let model: { findOne: jest.Mock; findOneAndUpdate: jest.Mock; findById: jest.Mock; updateOne: jest.Mock };
+    let service: ApiKeyService;
+
+    const apiKey = (overrides: Record<string, any> = {}) => ({
+        _id: 'key-id',
+        name: 'test',
+        hash: 'hash',
+        enabled: true,
+        routes: ['*'],
+        requestsPerMinute: 60,
+        dailyQuota: 0,
+        ...overrides,
+    }) as any;
+
+    beforeEach(() => {
+        model = {
+            findOne: jest.fn(),
+            findOneAndUpdate: jest.fn(),
+            findById: jest.fn(),
+            updateOne: jest.fn(() => exec({})),
+        };
+        service = new ApiKeyService(model as any);
+    });
+
+    it('caches known keys', async () => {
+        model.findOne.mockReturnValue(exec(apiKey()));
+
+        await service.findByKey('known');
+        await service.findByKey('known');
+
+        expect(model.findOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not cache unknown keys', async () => {
+        model.findOne.mockReturnValue(exec(null));
+
+        for (let i = 0; i < 100; i++) {
+            await expect(service.findByKey(`random-${i}`)).resolves.toBeNull();
+        }
+
+        expect(model.findOne).toHaveBeenCalledTimes(100);
+        expect((service as any).keys.size).toBe(0);
+    });
+
+    it('charges the cost against the per-minute limit', async () => {
+        const key = apiKey({ requestsPerMinute: 60 });
+
+        await expect(service.consume(key, 50)).resolves.toMatchObject({ allowed: true, minuteRemaining: 10 });
+        await expect(service.consume(key, 11)).resolves.toMatchObject({ allowed: false, reason: 'minute', minuteRemaining: 10 });
+        await expect(service.consume(key, 10)).resolves.toMatchObject({ allowed: true, minuteRemaining: 0 });
+    });
+
+    it('charges the cost against the daily quota', async () => {
+        const key = apiKey({ dailyQuota: 100 });
+        model.findOneAndUpdate.mockReturnValueOnce(exec({ dailyUsage: 50 }));
+
+        await expect(service.consume(key, 50)).resolves.toMatchObject({ allowed: true, dailyRemaining: 50 });
+        expect(model.findOneAndUpdate.mock.calls[0][0]).toMatchObject({ dailyUsage: { $lte: 50 } });
+        expect(model.findOneAndUpdate.mock.calls[0][1]).toMatchObject({ $inc: { dailyUsage: 50 } });
+    });
+
+    it('rejects a cost the daily quota has no room for', async () => {
+        const key = apiKey({ dailyQuota: 100, requestsPerMinute: 0 });
+        model.findOneAndUpdate.mockReturnValue(exec(null));
+        model.findById.mockReturnValue(exec({ dailyUsage: 80, dailyUsageDate: new Date().toISOString().substring(0, 10) }));
+
+        await expect(service.consume(key, 30)).resolves.toMatchObject({ allowed: false, reason: 'daily', dailyRemaining: 20 });
+        await expect(service.consume(key, 101)).resolves.toMatchObject({ allowed: false, reason: 'daily' });
+    });
+});
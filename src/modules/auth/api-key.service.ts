@@ -0,0 +1,164 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHash } from 'crypto';
+import { ApiKey, ApiKeyDocument } from 'src/schemas/api-key.schema';
+
+export interface QuotaUsage {
+    allowed: boolean;
+    reason?: 'minute' | 'daily';
+    minuteLimit: number;
+    minuteRemaining: number;
+    minuteReset: number;
+    dailyLimit: number;
+    dailyRemaining: number;
+}
+
+const PRIORITY_ORDER = { high: 0, normal: 1, low: 2 };
+
+/**
+ * Lower the requested priority to the highest one the key is allowed to use
+ */
+export const capPriority = (
+    priority: 'high' | 'normal' | 'low',
+    maxPriority: 'high' | 'normal' | 'low' = 'normal',
+): 'high' | 'normal' | 'low' => {
+    return PRIORITY_ORDER[priority] < PRIORITY_ORDER[maxPriority] ? maxPriority : priority;
+};
+
+@Injectable()
+export class ApiKeyService implements OnModuleInit {
+    private readonly logger = new Logger(ApiKeyService.name);
+    private readonly CACHE_TTL = parseInt(process.env.API_KEY_CACHE_TTL || '60000');
+
+    // Known keys only, unknown keys are looked up every time so random keys cannot fill the cache
+    private keys: Map<string, { apiKey: ApiKeyDocument; expiresAt: number }> = new Map();
+    private minuteWindows: Map<string, { start: number; count: number }> = new Map();
+
+    constructor(
+        @InjectModel(ApiKey.name)
+        private apiKeyModel: Model<ApiKeyDocument>,
+    ) { }
+
+    onModuleInit() {
+        if (!this.isEnabled()) {
+            this.logger.warn('API_KEYS_ENABLED is false, every endpoint is open to anyone who can reach the server');
+        }
+    }
+
+    // Enforced unless explicitly turned off
+    public isEnabled(): boolean {
+        return process.env.API_KEYS_ENABLED !== 'false';
+    }
+
+    public async findByKey(key: string): Promise<ApiKeyDocument | null> {
+        const hash = this.hash(key);
+        const cached = this.keys.get(hash);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.apiKey;
+        }
+
+        const apiKey = await this.apiKeyModel.findOne({ hash }).exec();
+        if (apiKey) {
+            this.keys.set(hash, { apiKey, expiresAt: Date.now() + this.CACHE_TTL });
+        } else {
+            this.keys.delete(hash);
+        }
+        return apiKey;
+    }
+
+    public isRouteAllowed(apiKey: ApiKeyDocument, route: string): boolean {
+        return apiKey.routes.includes('*') || apiKey.routes.includes(route);
+    }
+
+    /**
+     * Count a request against the key's per-minute window and daily quota, cost being the number of inspections it makes
+     */
+    public async consume(apiKey: ApiKeyDocument, cost = 1): Promise<QuotaUsage> {
+        const now = Date.now();
+        const usage: QuotaUsage = {
+            allowed: true,
+            minuteLimit: apiKey.requestsPerMinute,
+            minuteRemaining: apiKey.requestsPerMinute,
+            minuteReset: now + 60000,
+            dailyLimit: apiKey.dailyQuota,
+            dailyRemaining: apiKey.dailyQuota,
+        };
+
+        let window = this.minuteWindows.get(apiKey.hash);
+        if (!window || now - window.start >= 60000) {
+            window = { start: now, count: 0 };
+            this.minuteWindows.set(apiKey.hash, window);
+        }
+
+        usage.minuteReset = window.start + 60000;
+        if (apiKey.requestsPerMinute > 0 && window.count + cost > apiKey.requestsPerMinute) {
+            usage.allowed = false;
+            usage.reason = 'minute';
+            usage.minuteRemaining = Math.max(apiKey.requestsPerMinute - window.count, 0);
+            return usage;
+        }
+
+        if (apiKey.dailyQuota > 0) {
+            const dailyUsage = await this.incrementDailyUsage(apiKey, cost);
+            if (dailyUsage === null) {
+                usage.allowed = false;
+                usage.reason = 'daily';
+                usage.dailyRemaining = await this.getDailyRemaining(apiKey);
+                return usage;
+            }
+            usage.dailyRemaining = apiKey.dailyQuota - dailyUsage;
+        } else {
+            this.apiKeyModel.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: new Date() } }).exec()
+                .catch(error => this.logger.error(`Failed to update key ${apiKey.name}: ${error.message}`));
+        }
+
+        window.count += cost;
+        usage.minuteRemaining = apiKey.requestsPerMinute - window.count;
+        return usage;
+    }
+
+    /**
+     * Atomically add the cost to today's usage, returns null when it does not fit in the quota anymore
+     */
+    private async incrementDailyUsage(apiKey: ApiKeyDocument, cost: number): Promise<number | null> {
+        if (cost > apiKey.dailyQuota) {
+            return null;
+        }
+        const today = this.today();
+
+        const sameDay = await this.apiKeyModel.findOneAndUpdate(
+            { _id: apiKey._id, dailyUsageDate: today, dailyUsage: { $lte: apiKey.dailyQuota - cost } },
+            { $inc: { dailyUsage: cost }, $set: { lastUsedAt: new Date() } },
+            { new: true },
+        ).exec();
+        if (sameDay) {
+            return sameDay.dailyUsage;
+        }
+
+        const newDay = await this.apiKeyModel.findOneAndUpdate(
+            { _id: apiKey._id, dailyUsageDate: { $ne: today } },
+            { $set: { dailyUsageDate: today, dailyUsage: cost, lastUsedAt: new Date() } },
+            { new: true },
+        ).exec();
+
+        return newDay ? newDay.dailyUsage : null;
+    }
+
+    /**
+     * What is left of today's quota, a rejected request may still leave room for a smaller one
+     */
+    private async getDailyRemaining(apiKey: ApiKeyDocument): Promise<number> {
+        const current = await this.apiKeyModel.findById(apiKey._id, { dailyUsage: 1, dailyUsageDate: 1 }).exec();
+        const used = current?.dailyUsageDate === this.today() ? current.dailyUsage : 0;
+        return Math.max(apiKey.dailyQuota - used, 0);
+    }
+
+    private today(): string {
+        return new Date().toISOString().substring(0, 10);
+    }
+
+    private hash(key: string): string {
+        return createHash('sha256').update(key).digest('hex');
+    }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+import { ApiKey, ApiKeySchema } from 'src/schemas/api-key.schema'
+import { ApiKeyService } from './api-key.service'
+import { ApiKeyGuard } from './api-key.guard'
+
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            { name: ApiKey.name, schema: ApiKeySchema },
+        ]),
+    ],
+    providers: [ApiKeyService, ApiKeyGuard],
+    exports: [ApiKeyService, ApiKeyGuard],
+})
+export class AuthModule {}
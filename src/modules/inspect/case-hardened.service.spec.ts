@@ -0,0 +1,104 @@
+import { HttpException } from '@nestjs/common';
+import * as fs from 'fs';
+import { getPatternName, getWeaponName } from 'src/constants';
+import { BluePercentage, CaseHardenedFinish, CaseHardenedService } from './case-hardened.service';
+
+const SOURCE = 'static/ch-blue-percentages.json';
+
+// The file the service reads, tested as shipped
+const percentages: Record<CaseHardenedFinish, Record<string, Record<string, Record<string, BluePercentage>>>> =
+    JSON.parse(fs.readFileSync(SOURCE, 'utf8'));
+
+const finishNames: Record<CaseHardenedFinish, string> = {
+    case_hardened: 'Case Hardened',
+    heat_treated: 'Heat Treated',
+};
+
+const entries = (Object.keys(percentages) as CaseHardenedFinish[]).flatMap(finish =>
+    Object.keys(percentages[finish]).map(weapon => [finish, weapon] as const));
+
+const expectPercentage = (percentage?: BluePercentage) => {
+    if (percentage === undefined) return;
+
+    expect(Object.keys(percentage).every(key => key === 'blue' || key === 'gold')).toBe(true);
+    expect(percentage.blue).toBeGreaterThanOrEqual(0);
+    expect(percentage.blue + (percentage.gold ?? 0)).toBeLessThanOrEqual(100);
+};
+
+describe('CaseHardenedService', () => {
+    let service: CaseHardenedService;
+
+    beforeEach(() => {
+        service = new CaseHardenedService();
+        service.onModuleInit();
+    });
+
+    const expectNotFound = (lookup: () => unknown) => {
+        try {
+            lookup();
+        } catch (error) {
+            expect(error).toBeInstanceOf(HttpException);
+            expect((error as HttpException).getStatus()).toBe(404);
+            return;
+        }
+        throw new Error('Expected a 404');
+    };
+
+    it('lists the AK-47, the Five-SeveN and the knives', () => {
+        expect(Object.keys(percentages).sort()).toEqual(['case_hardened', 'heat_treated']);
+        expect(Object.keys(percentages.case_hardened)).toEqual(expect.arrayContaining(['ak47', 'five_seven', 'karambit', 'bayonet']));
+        expect(Object.keys(percentages.heat_treated)).toEqual(['five_seven']);
+    });
+
+    describe.each(entries)('%s %s', (finish, weapon) => {
+        const marketHashName = `${getWeaponName(weapon)} | ${finishNames[finish]} (Field-Tested)`;
+
+        it('lists valid seeds and percentages', () => {
+            expect(getWeaponName(weapon)).toBeDefined();
+
+            for (const [seed, sides] of Object.entries(percentages[finish][weapon])) {
+                expect(Number.isInteger(Number(seed)) && Number(seed) >= 0 && Number(seed) <= 1000).toBe(true);
+                expect(Object.keys(sides).length).toBeGreaterThan(0);
+                expect(Object.keys(sides).every(side => side === 'playside' || side === 'backside')).toBe(true);
+                expectPercentage(sides.playside);
+                expectPercentage(sides.backside);
+            }
+        });
+
+        it('returns every listed seed', () => {
+            for (const [seed, sides] of Object.entries(percentages[finish][weapon])) {
+                const expected = {
+                    weapon,
+                    finish,
+                    seed: Number(seed),
+                    tier: finish === 'case_hardened' ? getPatternName(marketHashName, Number(seed)) ?? null : null,
+                    playside: sides.playside ?? null,
+                    backside: sides.backside ?? null,
+                    source: SOURCE,
+                };
+
+                expect(service.lookup(weapon, Number(seed), finish)).toEqual(expected);
+                expect(service.lookup(getWeaponName(weapon), Number(seed), finish)).toEqual(expected);
+                expect(service.lookupItem(marketHashName, Number(seed))).toEqual(expected);
+            }
+        });
+
+        it('answers 404 for seeds without data', () => {
+            const seed = [...Array(1001).keys()].find(seed => !percentages[finish][weapon][seed]);
+
+            expectNotFound(() => service.lookup(weapon, seed, finish));
+            expect(service.lookupItem(marketHashName, seed)).toBeNull();
+        });
+    });
+
+    it('answers 404 for weapons without data', () => {
+        expectNotFound(() => service.lookup('awp', 661));
+        expectNotFound(() => service.lookup('ak47', 661, 'heat_treated'));
+        expectNotFound(() => service.lookup('not a weapon', 661));
+    });
+
+    it('has nothing for other skins', () => {
+        expect(service.lookupItem('AK-47 | Redline (Field-Tested)', 661)).toBeNull();
+        expect(service.lookupItem('AWP | Case Hardened (Field-Tested)', 661)).toBeNull();
+    });
+});
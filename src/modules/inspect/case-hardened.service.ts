@@ -0,0 +1,106 @@
+import { HttpException, HttpStatus, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { findWeaponKey, getPatternName, getWeaponName } from 'src/constants';
+
+const fs = require('fs');
+
+export type CaseHardenedFinish = 'case_hardened' | 'heat_treated';
+
+export interface BluePercentage {
+    blue: number;
+    gold?: number;
+}
+
+interface SeedPercentages {
+    playside?: BluePercentage;
+    backside?: BluePercentage;
+}
+
+export interface CaseHardenedPattern {
+    weapon: string;
+    finish: CaseHardenedFinish;
+    seed: number;
+    // Tier from static/ch-patterns.json, Case Hardened only
+    tier: string | null;
+    // At least one side is known
+    playside: BluePercentage | null;
+    backside: BluePercentage | null;
+    source: string;
+}
+
+const finishNames: Record<CaseHardenedFinish, string> = {
+    case_hardened: 'Case Hardened',
+    heat_treated: 'Heat Treated',
+};
+
+@Injectable()
+export class CaseHardenedService implements OnModuleInit {
+    private readonly logger = new Logger(CaseHardenedService.name);
+    private readonly SOURCE = 'static/ch-blue-percentages.json';
+
+    // finish -> weapon key -> seed -> blue percentages
+    private percentages: Record<string, Record<string, Record<string, SeedPercentages>>> = {};
+
+    onModuleInit() {
+        try {
+            this.percentages = JSON.parse(fs.readFileSync(this.SOURCE, 'utf8'));
+        } catch (error) {
+            this.logger.warn(`Blue percentages not loaded from ${this.SOURCE}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Blue percentages of a seed, the weapon is a weapon key (see weaponNames) or its name
+     */
+    public lookup(weapon: string, seed: number, finish: CaseHardenedFinish = 'case_hardened'): CaseHardenedPattern {
+        const weaponKey = findWeaponKey(weapon);
+        if (!weaponKey || !this.percentages[finish]?.[weaponKey]) {
+            throw new HttpException(`No ${finishNames[finish]} data for ${weapon}`, HttpStatus.NOT_FOUND);
+        }
+
+        const pattern = this.getPattern(weaponKey, seed, finish);
+        if (!pattern) {
+            throw new HttpException(`No ${finishNames[finish]} data for seed ${seed} of ${weapon}`, HttpStatus.NOT_FOUND);
+        }
+
+        return pattern;
+    }
+
+    /**
+     * Blue percentages of a formatted item, null for other skins or seeds without data
+     */
+    public lookupItem(marketHashName: string, seed: number): CaseHardenedPattern | null {
+        const finish = (Object.keys(finishNames) as CaseHardenedFinish[])
+            .find(key => marketHashName.includes(`| ${finishNames[key]}`));
+        const weaponKey = findWeaponKey(marketHashName);
+
+        if (!finish || !weaponKey || !this.percentages[finish]?.[weaponKey]) {
+            return null;
+        }
+
+        return this.getPattern(weaponKey, seed, finish);
+    }
+
+    /**
+     * Null for seeds without playside or backside data
+     */
+    private getPattern(weaponKey: string, seed: number, finish: CaseHardenedFinish): CaseHardenedPattern | null {
+        const percentages = this.percentages[finish][weaponKey][seed];
+        if (!percentages?.playside && !percentages?.backside) {
+            return null;
+        }
+
+        const tier = finish === 'case_hardened'
+            ? getPatternName(`${getWeaponName(weaponKey)} | Case Hardened`, seed)
+            : null;
+
+        return {
+            weapon: weaponKey,
+            finish,
+            seed,
+            tier: tier ?? null,
+            playside: percentages.playside ?? null,
+            backside: percentages.backside ?? null,
+            source: this.SOURCE,
+        };
+    }
+}
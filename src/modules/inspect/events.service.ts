@@ -0,0 +1,60 @@
+import { Injectable, Logger, MessageEvent, OnModuleInit } from '@nestjs/common';
+import { filter, map, Observable, Subject } from 'rxjs';
+import { FormatService } from './format.service';
+import { FormattedResponse } from './interfaces/schema.interface';
+import { WorkerManagerService } from './worker/worker-manager.service';
+import { EventsDto } from './inspect.dto';
+
+@Injectable()
+export class EventsService implements OnModuleInit {
+    private readonly logger = new Logger(EventsService.name);
+    private readonly results = new Subject<FormattedResponse>();
+
+    constructor(
+        private readonly formatService: FormatService,
+        private readonly workerManagerService: WorkerManagerService,
+    ) { }
+
+    onModuleInit() {
+        this.workerManagerService.on('inspectResult', (result) => this.publish(result));
+    }
+
+    /**
+     * Live stream of every completed inspection matching the given filters
+     */
+    public stream(filters: EventsDto): Observable<MessageEvent> {
+        return this.results.pipe(
+            filter((response) => this.matches(response, filters)),
+            map((response) => ({
+                type: 'inspect',
+                id: response.iteminfo.asset_id?.toString(),
+                data: response,
+            })),
+        );
+    }
+
+    private async publish(result: any): Promise<void> {
+        // Nobody is listening, skip formatting
+        if (!result || !this.results.observed) {
+            return;
+        }
+
+        try {
+            const formattedResponse = await this.formatService.formatResponse(
+                this.formatService.mapInspectResponse(result),
+            );
+            this.results.next(formattedResponse);
+        } catch (error) {
+            this.logger.debug(`Skipping event for item ${result.itemid}: ${error.message}`);
+        }
+    }
+
+    private matches({ iteminfo }: FormattedResponse, filters: EventsDto): boolean {
+        if (filters.defindex !== undefined && iteminfo.defindex !== filters.defindex) return false;
+        if (filters.paintindex !== undefined && iteminfo.paintindex !== filters.paintindex) return false;
+        if (filters.minFloat !== undefined && !(iteminfo.floatvalue >= filters.minFloat)) return false;
+        if (filters.maxFloat !== undefined && !(iteminfo.floatvalue <= filters.maxFloat)) return false;
+        if (filters.pattern && iteminfo.pattern !== filters.pattern) return false;
+        return true;
+    }
+}
@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import { FADE_FINISHES, FadeFinish, FadePercentage, findFadeWeapon, getFadePercentage, getFadePercentages } from './fade-calculator';
+
+interface ReferenceTable {
+    weapon: string;
+    percentages: FadePercentage[];
+}
+
+// Tables of https://github.com/chescos/csgo-fade-percentage-calculator, the Amber and Acid Fade ones generated with 1.1.6
+const REFERENCE_FILES: Record<FadeFinish, string> = {
+    'Fade': 'data/fade-percentages.json',
+    'Amber Fade': 'data/amber-fade-percentages.json',
+    'Acid Fade': 'data/acid-fade-percentages.json',
+};
+
+const EPSILON = 1e-9;
+
+describe('fade-calculator', () => {
+    describe.each(Object.keys(REFERENCE_FILES) as FadeFinish[])('%s', (finish) => {
+        const reference: ReferenceTable[] = JSON.parse(fs.readFileSync(REFERENCE_FILES[finish], 'utf8'));
+
+        it('calculates every weapon of the reference table', () => {
+            expect(Object.keys(FADE_FINISHES[finish]).sort()).toEqual(reference.map(table => table.weapon).sort());
+        });
+
+        it.each(reference.map(table => [table.weapon, table.percentages] as const))('matches the table for %s', (weapon, percentages) => {
+            const calculated = getFadePercentages(weapon, finish);
+
+            expect(calculated).toHaveLength(percentages.length);
+            for (const { seed, percentage, ranking } of percentages) {
+                expect(calculated[seed].seed).toBe(seed);
+                expect(Math.abs(calculated[seed].percentage - percentage)).toBeLessThan(EPSILON);
+                expect(calculated[seed].ranking).toBe(ranking);
+            }
+        });
+    });
+
+    it('finds the weapon of a market hash name within its finish', () => {
+        expect(findFadeWeapon('★ M9 Bayonet | Fade (Factory New)')).toBe('M9 Bayonet');
+        expect(findFadeWeapon('★ Bayonet | Fade (Factory New)')).toBe('Bayonet');
+        expect(findFadeWeapon('MAC-10 | Amber Fade (Factory New)', 'Amber Fade')).toBe('MAC-10');
+        expect(findFadeWeapon('SSG 08 | Acid Fade (Factory New)', 'Acid Fade')).toBe('SSG 08');
+        expect(findFadeWeapon('SSG 08 | Acid Fade (Factory New)')).toBeUndefined();
+    });
+
+    it('has no percentages for weapons without the finish', () => {
+        expect(getFadePercentages('AK-47')).toBeNull();
+        expect(getFadePercentages('AWP', 'Amber Fade')).toBeNull();
+        expect(getFadePercentage('Karambit', 1000)).toBeNull();
+    });
+});
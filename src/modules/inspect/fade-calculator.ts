@@ -0,0 +1,236 @@
+/**
+ * Fade percentages computed from the paint seed, a port of
+ * https://github.com/chescos/csgo-fade-percentage-calculator
+ *
+ * The game offsets and rotates the fade texture with random values drawn from the seed,
+ * the percentage is how far that puts the seed between the least and the most faded one.
+ */
+
+interface PatternConfig {
+    pattern_offset_x_start: number;
+    pattern_offset_x_end: number;
+    pattern_offset_y_start: number;
+    pattern_offset_y_end: number;
+    pattern_rotate_start: number;
+    pattern_rotate_end: number;
+}
+
+interface FadeWeapon {
+    config: PatternConfig;
+    // The fade runs the other way on these models, so the lowest raw value is the fullest fade
+    reversed: boolean;
+    // Weapons from trade-ups have seeds up to 1000, knives up to 999
+    maxSeed: number;
+}
+
+export type FadeFinish = 'Fade' | 'Amber Fade' | 'Acid Fade';
+
+export interface FadePercentage {
+    seed: number;
+    percentage: number;
+    // Rank counted from whichever end is closer, 1 being the fullest or the least faded seed
+    ranking: number;
+}
+
+const MIN_PERCENTAGE = 80;
+
+const DEFAULT_CONFIG: PatternConfig = {
+    pattern_offset_x_start: -0.7,
+    pattern_offset_x_end: -0.7,
+    pattern_offset_y_start: -0.7,
+    pattern_offset_y_end: -0.7,
+    pattern_rotate_start: -55,
+    pattern_rotate_end: -65,
+};
+
+const knife = (reversed = false): FadeWeapon => ({ config: DEFAULT_CONFIG, reversed, maxSeed: 999 });
+const tradeUp = (config = DEFAULT_CONFIG, reversed = false): FadeWeapon => ({ config, reversed, maxSeed: 1000 });
+
+/**
+ * Weapons of each fading finish, named as in market hash names
+ */
+export const FADE_FINISHES: Record<FadeFinish, Record<string, FadeWeapon>> = {
+    'Fade': {
+        'AWP': tradeUp(DEFAULT_CONFIG, true),
+        'Bayonet': knife(),
+        'Bowie Knife': knife(),
+        'Butterfly Knife': knife(),
+        'Classic Knife': knife(),
+        'Falchion Knife': knife(),
+        'Flip Knife': knife(),
+        'Glock-18': tradeUp(),
+        'Gut Knife': knife(),
+        'Huntsman Knife': knife(),
+        'Karambit': knife(true),
+        'Kukri Knife': knife(),
+        'M4A1-S': tradeUp({
+            ...DEFAULT_CONFIG,
+            pattern_offset_x_start: -0.14,
+            pattern_offset_x_end: 0.05,
+            pattern_offset_y_start: 0,
+            pattern_offset_y_end: 0,
+            pattern_rotate_start: -45,
+            pattern_rotate_end: -45,
+        }),
+        'M9 Bayonet': knife(),
+        'MAC-10': tradeUp(),
+        'MP7': tradeUp({
+            ...DEFAULT_CONFIG,
+            pattern_offset_x_start: -0.9,
+            pattern_offset_x_end: -0.3,
+            pattern_offset_y_start: -0.7,
+            pattern_offset_y_end: -0.5,
+        }, true),
+        'Navaja Knife': knife(),
+        'Nomad Knife': knife(),
+        'Paracord Knife': knife(),
+        'R8 Revolver': tradeUp(),
+        'Shadow Daggers': knife(),
+        'Skeleton Knife': knife(),
+        'Stiletto Knife': knife(),
+        'Survival Knife': knife(),
+        'Talon Knife': knife(true),
+        'UMP-45': tradeUp(),
+        'Ursus Knife': knife(),
+    },
+    'Amber Fade': {
+        'AUG': tradeUp(),
+        'Galil AR': tradeUp(),
+        'MAC-10': tradeUp(),
+        'P2000': tradeUp(),
+        'R8 Revolver': tradeUp(),
+        'Sawed-Off': tradeUp(),
+    },
+    'Acid Fade': {
+        'SSG 08': tradeUp({
+            ...DEFAULT_CONFIG,
+            pattern_offset_x_start: -2.4,
+            pattern_offset_x_end: -2.1,
+            pattern_offset_y_start: 0,
+            pattern_offset_y_end: 0,
+        }, true),
+    },
+};
+
+// Longest names first so "M9 Bayonet" is not taken for "Bayonet"
+const weaponNamesByLength = (finish: FadeFinish) =>
+    Object.keys(FADE_FINISHES[finish]).sort((a, b) => b.length - a.length);
+
+const cache = new Map<string, FadePercentage[]>();
+
+/**
+ * Source engine's uniform random number generator (Numerical Recipes ran1), seeded per item
+ */
+class RandomNumberGenerator {
+    private static readonly NTAB = 32;
+    private static readonly IA = 16807;
+    private static readonly IM = 2147483647;
+    private static readonly IQ = 127773;
+    private static readonly IR = 2836;
+    private static readonly NDIV = 1 + Math.floor((RandomNumberGenerator.IM - 1) / RandomNumberGenerator.NTAB);
+    private static readonly AM = 1 / RandomNumberGenerator.IM;
+    private static readonly RNMX = 1 - 1.2e-7;
+
+    private idum: number;
+    private iy = 0;
+    private iv: number[] = [];
+
+    constructor(seed: number) {
+        this.idum = seed >= 0 ? -seed : seed;
+    }
+
+    public randomFloat(low: number, high: number): number {
+        const float = Math.min(RandomNumberGenerator.AM * this.next(), RandomNumberGenerator.RNMX);
+        return float * (high - low) + low;
+    }
+
+    private next(): number {
+        const { NTAB, NDIV } = RandomNumberGenerator;
+
+        if (this.idum <= 0 || this.iy === 0) {
+            this.idum = Math.max(-this.idum, 1);
+            for (let j = NTAB + 7; j >= 0; j--) {
+                this.step();
+                if (j < NTAB) {
+                    this.iv[j] = this.idum;
+                }
+            }
+            this.iy = this.iv[0];
+        }
+
+        this.step();
+        const j = Math.floor(this.iy / NDIV);
+        this.iy = this.iv[j];
+        this.iv[j] = this.idum;
+        return this.iy;
+    }
+
+    private step(): void {
+        const { IA, IM, IQ, IR } = RandomNumberGenerator;
+        const k = Math.floor(this.idum / IQ);
+        this.idum = IA * (this.idum - k * IQ) - IR * k;
+        if (this.idum < 0) {
+            this.idum += IM;
+        }
+    }
+}
+
+export const findFadeWeapon = (marketHashName: string, finish: FadeFinish = 'Fade'): string | undefined =>
+    weaponNamesByLength(finish).find(name => marketHashName.includes(name));
+
+/**
+ * Percentages of every seed of a weapon, null for weapons without the finish
+ */
+export const getFadePercentages = (weapon: string, finish: FadeFinish = 'Fade'): FadePercentage[] | null => {
+    const fadeWeapon = FADE_FINISHES[finish]?.[weapon];
+    if (!fadeWeapon) {
+        return null;
+    }
+
+    const key = `${finish}/${weapon}`;
+    if (!cache.has(key)) {
+        cache.set(key, calculate(fadeWeapon));
+    }
+    return cache.get(key);
+};
+
+export const getFadePercentage = (weapon: string, seed: number, finish: FadeFinish = 'Fade'): FadePercentage | null => {
+    return getFadePercentages(weapon, finish)?.[seed] ?? null;
+};
+
+const calculate = ({ config, reversed, maxSeed }: FadeWeapon): FadePercentage[] => {
+    const raw: number[] = [];
+    const usesRotation = config.pattern_rotate_start !== config.pattern_rotate_end;
+    const usesOffsetX = config.pattern_offset_x_start !== config.pattern_offset_x_end;
+
+    for (let seed = 0; seed <= maxSeed; seed++) {
+        const random = new RandomNumberGenerator(seed);
+
+        // The draws happen in this order in the game, the y offset does not change the fade
+        const offsetX = random.randomFloat(config.pattern_offset_x_start, config.pattern_offset_x_end);
+        random.randomFloat(config.pattern_offset_y_start, config.pattern_offset_y_end);
+        const rotation = random.randomFloat(config.pattern_rotate_start, config.pattern_rotate_end);
+
+        // Only what varies between seeds moves the fade
+        if (usesRotation && usesOffsetX) {
+            raw.push(rotation * offsetX);
+        } else {
+            raw.push(usesRotation ? rotation : offsetX);
+        }
+    }
+
+    let min = Math.min(...raw);
+    let max = Math.max(...raw);
+    if (reversed) {
+        [min, max] = [max, min];
+    }
+
+    const percentages = raw.map(value => MIN_PERCENTAGE + (value - min) / (max - min) * (100 - MIN_PERCENTAGE));
+    const sorted = [...percentages].sort((a, b) => a - b);
+
+    // Seeds with the same percentage share the rank of the first of them, from either end
+    return percentages.map((percentage, seed) => {
+        const index = sorted.indexOf(percentage);
+        return { seed, percentage, ranking: Math.min(index + 1, sorted.length - index) };
+    });
+};
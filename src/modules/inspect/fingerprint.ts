@@ -0,0 +1,75 @@
+import { createHash } from 'crypto';
+import { StickerKeychain } from './interfaces/schema.interface';
+
+/**
+ * Asset fields that identify an item, named like the inspect_assets documents
+ */
+export interface FingerprintItem {
+    assetId?: number;
+    defIndex?: number;
+    paintIndex?: number;
+    paintSeed?: number;
+    paintWear?: number;
+    quality?: number;
+    origin?: number;
+    rarity?: number;
+    questId?: number;
+    dropReason?: number;
+    killeaterScoreType?: number;
+    stickers?: StickerKeychain[];
+    keychains?: StickerKeychain[];
+}
+
+/**
+ * Fields compared to tell two items with the same fingerprint apart
+ */
+export const FINGERPRINT_FIELDS = [
+    'defIndex',
+    'paintIndex',
+    'paintSeed',
+    'paintWear',
+    'quality',
+    'origin',
+    'rarity',
+    'questId',
+    'dropReason',
+    'killeaterScoreType',
+] as const;
+
+/**
+ * Items without a float (stickers, cases, agents, vanilla knives) exist many times over,
+ * so nothing but their asset ID tells them apart. Their ID changes with every trade.
+ */
+export const isUniqueItem = (item: FingerprintItem): boolean => !!item.paintWear;
+
+/**
+ * Stable ID of an item across trades, 32 hex chars of a SHA-256.
+ *
+ * Stickers and keychains on a skin can be applied and scraped, so they are only part of the
+ * fingerprint for items without a float, where they are what the item is (e.g. a sticker).
+ * Pass a salt to re-key an item whose fingerprint collided with a different one; salts count up
+ * from 1 and never depend on the asset ID, which changes with every trade.
+ */
+export const generateUniqueId = (item: FingerprintItem, salt?: string | number): string => {
+    const values: Array<string | number> = FINGERPRINT_FIELDS.map(field => item[field] ?? 0);
+
+    if (!isUniqueItem(item)) {
+        values.push(
+            (item.stickers ?? []).map(sticker => `${sticker.slot}:${sticker.sticker_id}`).join(','),
+            (item.keychains ?? []).map(keychain => `${keychain.slot}:${keychain.sticker_id}`).join(','),
+            item.assetId ?? 0,
+        );
+    }
+
+    if (salt !== undefined) {
+        values.push(`salt:${salt}`);
+    }
+
+    return createHash('sha256').update(values.join('-')).digest('hex').substring(0, 32);
+};
+
+/**
+ * Whether a stored item is the same one as a freshly inspected item with the same fingerprint
+ */
+export const isSameItem = (a: FingerprintItem, b: FingerprintItem): boolean =>
+    FINGERPRINT_FIELDS.every(field => (a[field] ?? 0) === (b[field] ?? 0));
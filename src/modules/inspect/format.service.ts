@@ -1,15 +1,14 @@
-import { HttpService } from '@nestjs/axios';
 import {
     HttpException,
     HttpStatus,
     Injectable,
-    Logger,
-    OnModuleInit,
 } from '@nestjs/common';
-import { firstValueFrom } from 'rxjs';
 import { AssetDocument } from 'src/schemas/asset.schema';
-import { Schema, FormattedResponse, Metadata, Paint } from './interfaces/schema.interface';
-import { getPatternName } from 'src/constants';
+import { Schema, FormattedResponse, Metadata, Paint, PatternInfo } from './interfaces/schema.interface';
+import { getPatternInfo, getPatternName } from 'src/constants';
+import { SchemaService } from './schema.service';
+import { RankingService } from './ranking.service';
+import { CaseHardenedService } from './case-hardened.service';
 
 enum ItemDefIndex {
     Sticker = 1209,
@@ -54,49 +53,64 @@ const Phase = {
 };
 
 @Injectable()
-export class FormatService implements OnModuleInit {
-    private readonly logger = new Logger(FormatService.name);
-    private schema: Schema;
-
+export class FormatService {
     constructor(
-        private httpService: HttpService,
+        private schemaService: SchemaService,
+        private rankingService: RankingService,
+        private caseHardenedService: CaseHardenedService,
     ) { }
 
-    async onModuleInit() {
-        await this.loadSchema();
+    // Read on every use so a refreshed schema is picked up immediately
+    private get schema(): Schema {
+        return this.schemaService.schema;
     }
 
-    private async loadSchema(): Promise<void> {
-        this.logger.debug('Loading schema...');
-        try {
-            const response = await firstValueFrom(
-                this.httpService.get<Schema>('https://csfloat.com/api/v1/schema'),
-            );
-            this.schema = response.data;
-            this.logger.debug('Schema loaded');
-        } catch (error) {
-            this.logger.error('Failed to load schema', error);
-            throw new Error('Failed to load schema');
-        }
+    /**
+     * Map a raw GC inspect response onto the stored asset fields
+     */
+    public mapInspectResponse(response: any) {
+        return {
+            assetId: parseInt(response.itemid),
+            paintSeed: response.paintseed === null ? 0 : response.paintseed,
+            paintIndex: response.paintindex === null ? 0 : response.paintindex,
+            paintWear: response.paintwear === null ? 0 : response.paintwear,
+            customName: response.customname,
+            defIndex: response.defindex,
+            origin: response.origin,
+            rarity: response.rarity,
+            questId: response.questid,
+            stickers: response.stickers,
+            quality: response.quality,
+            keychains: response.keychains,
+            killeaterScoreType: response.killeaterscoretype,
+            killeaterValue: response.killeatervalue,
+            inventory: response.inventory,
+            petIndex: response.petindex,
+            musicIndex: response.musicindex,
+            entIndex: response.entindex,
+            dropReason: response.dropreason,
+        };
     }
 
     public async formatResponse(asset: AssetDocument | any): Promise<FormattedResponse> {
-        const meta = this.createMetadata(asset);
-
         if (!this.schema.weapons[asset.defIndex]) {
             return this.formatSpecialItem(asset);
         }
 
+        const meta = await this.createMetadata(asset);
+
         return this.formatWeapon(asset, meta);
     }
 
-    private createMetadata(asset: AssetDocument | any): Metadata {
+    private async createMetadata(asset: AssetDocument | any): Promise<Metadata> {
+        const ranking = await this.rankingService.getRanking(asset);
+
         return {
             wear: asset.paintWear ? this.getWear(asset.paintWear) : undefined,
-            low_rank: undefined, // Rankings removed - can be implemented later with MongoDB aggregation
-            high_rank: undefined,
-            totalCount: undefined,
-            rank: undefined,
+            low_rank: ranking?.low_rank,
+            high_rank: ranking?.high_rank,
+            totalCount: ranking?.totalCount,
+            rank: ranking ? Math.min(ranking.low_rank, ranking.high_rank) : undefined,
             paintIndex: asset.paintIndex,
             defIndex: asset.defIndex,
             quality: asset.quality,
@@ -268,11 +282,29 @@ export class FormatService implements OnModuleInit {
                 min: paint?.min,
                 max: paint?.max,
                 phase: Phase[asset.paintIndex] ?? undefined,
-                pattern: getPatternName(marketHashName, meta.paintSeed),
+                pattern: getPatternName(marketHashName, meta.paintSeed, Phase[asset.paintIndex]),
+                pattern_info: this.getPatternInfo(marketHashName, meta.paintSeed, Phase[asset.paintIndex]),
             },
         };
     }
 
+    private getPatternInfo(marketHashName: string, paintSeed: number, phase?: string): PatternInfo | undefined {
+        const info = getPatternInfo(marketHashName, paintSeed, phase);
+        const blue = this.caseHardenedService.lookupItem(marketHashName, paintSeed);
+
+        if (!blue) {
+            return info ?? undefined;
+        }
+
+        return {
+            ...(info ?? { type: blue.finish, source: blue.source }),
+            blue_percentage: blue.playside?.blue,
+            gold_percentage: blue.playside?.gold,
+            backside_blue_percentage: blue.backside?.blue,
+            backside_gold_percentage: blue.backside?.gold,
+        };
+    }
+
     private getPaint(paints: Record<string, Paint>, paintIndex?: number): Paint | undefined {
         if (!paintIndex) return undefined;
         return paints[paintIndex.toString()];
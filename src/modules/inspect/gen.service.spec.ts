@@ -0,0 +1,160 @@
+import { HttpException } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { FormatService } from './format.service';
+import { GenService } from './gen.service';
+import { GenDto } from './inspect.dto';
+import { InspectService } from './inspect.service';
+import { Schema } from './interfaces/schema.interface';
+import { ParseService } from './parse.service';
+
+const schema: Schema = {
+    weapons: {
+        '7': {
+            name: 'AK-47',
+            paints: { '44': { name: 'Case Hardened', image: '', min: 0, max: 1, rarity: 5 } },
+        },
+        '507': {
+            name: 'Karambit',
+            paints: { '38': { name: 'Fade', image: '', min: 0, max: 0.08, rarity: 6 } },
+        },
+    },
+    stickers: { '76': { market_hash_name: 'Sticker | Test' } },
+    keychains: { '36': { market_hash_name: 'Charm | Test' } },
+    agents: {},
+    graffiti: {},
+    rarities: {},
+    collections: {},
+};
+
+describe('GenService', () => {
+    let parseService: ParseService;
+    let inspectService: InspectService;
+    let service: GenService;
+
+    beforeEach(() => {
+        const schemaService = { schema } as any;
+        const formatService = new FormatService(
+            schemaService,
+            { getRanking: jest.fn().mockResolvedValue(null) } as any,
+            { lookupItem: jest.fn().mockReturnValue(null) } as any,
+        );
+
+        parseService = new ParseService();
+        inspectService = new InspectService(parseService, formatService, null, null, null, null, null, null, null, null);
+        service = new GenService(schemaService, parseService, inspectService);
+    });
+
+    const expectBadRequest = async (body: GenDto, message: string) => {
+        const error = await service.generate(body).catch(error => error);
+
+        expect(error).toBeInstanceOf(HttpException);
+        expect((error as HttpException).getStatus()).toBe(400);
+        expect((error as HttpException).message).toBe(message);
+    };
+
+    describe('generate', () => {
+        it('decodes the generated link into the same item', async () => {
+            const generated = await service.generate({
+                defindex: 7,
+                paintindex: 44,
+                paintseed: 661,
+                float: 0.15,
+                customname: 'Blue Gem',
+                stickers: [{ slot: 0, sticker_id: 76, wear: 0.5 }, { slot: 3, sticker_id: 76 }],
+                keychains: [{ slot: 0, sticker_id: 36, pattern: 1000 }],
+            });
+            const { link, ...item } = generated;
+
+            expect(await inspectService.decodeOffline(parseService.parse({ url: link } as any).masked)).toEqual(item);
+            expect(item.iteminfo).toMatchObject({
+                defindex: 7,
+                paintindex: 44,
+                paintseed: 661,
+                rarity: 5,
+                quality: 4,
+                market_hash_name: 'AK-47 | Case Hardened (Field-Tested)',
+                decoded_offline: true,
+            });
+            expect(item.iteminfo.floatvalue).toBeCloseTo(0.15, 7);
+            expect(item.iteminfo.stickers).toMatchObject([
+                { slot: 0, sticker_id: 76, wear: 0.5, market_hash_name: 'Sticker | Test' },
+                { slot: 3, sticker_id: 76 },
+            ]);
+            expect(item.iteminfo.keychains).toMatchObject([{ slot: 0, sticker_id: 36, pattern: 1000, market_hash_name: 'Charm | Test' }]);
+        });
+
+        it('uses the lowest float of the paint by default', async () => {
+            const { iteminfo } = await service.generate({ defindex: 507, paintindex: 38 });
+
+            expect(iteminfo).toMatchObject({ floatvalue: 0, paintseed: 0 });
+        });
+
+        it('gives knives the ★ quality', async () => {
+            const { iteminfo } = await service.generate({ defindex: 507, paintindex: 38, float: 0.01 });
+
+            expect(iteminfo).toMatchObject({ quality: 3, stattrak: false, market_hash_name: '★ Karambit | Fade (Factory New)' });
+        });
+
+        it('keeps the ★ quality of StatTrak knives', async () => {
+            const { iteminfo } = await service.generate({ defindex: 507, paintindex: 38, float: 0.01, stattrak: true });
+
+            expect(iteminfo).toMatchObject({ quality: 3, stattrak: true, market_hash_name: '★ StatTrak™ Karambit | Fade (Factory New)' });
+        });
+
+        it('makes weapons StatTrak', async () => {
+            const { iteminfo } = await service.generate({ defindex: 7, paintindex: 44, float: 0.4, stattrak: true });
+
+            expect(iteminfo).toMatchObject({ quality: 9, stattrak: true, market_hash_name: 'StatTrak™ AK-47 | Case Hardened (Well-Worn)' });
+        });
+
+        it('makes weapons Souvenir', async () => {
+            const { iteminfo } = await service.generate({ defindex: 7, paintindex: 44, float: 0.4, souvenir: true });
+
+            expect(iteminfo).toMatchObject({ quality: 12, souvenir: true, stattrak: false, market_hash_name: 'Souvenir AK-47 | Case Hardened (Well-Worn)' });
+        });
+
+        it('generates vanilla weapons', async () => {
+            const { iteminfo } = await service.generate({ defindex: 507 });
+
+            expect(iteminfo).toMatchObject({ paintindex: 0, quality: 3, market_hash_name: '★ Karambit' });
+        });
+    });
+
+    describe('validate', () => {
+        it('rejects StatTrak Souvenir items', async () => {
+            await expectBadRequest({ defindex: 7, stattrak: true, souvenir: true }, 'An item cannot be both StatTrak and Souvenir');
+        });
+
+        it('rejects unknown weapons', async () => {
+            await expectBadRequest({ defindex: 9999 }, 'Unknown weapon defindex 9999');
+        });
+
+        it('rejects paints the weapon does not have', async () => {
+            await expectBadRequest({ defindex: 7, paintindex: 38 }, 'Paint 38 does not exist for AK-47');
+        });
+
+        it('rejects floats outside of the paint range', async () => {
+            await expectBadRequest({ defindex: 507, paintindex: 38, float: 0.5 }, 'Float of Karambit | Fade must be between 0 and 0.08');
+        });
+
+        it('rejects unknown stickers and keychains', async () => {
+            await expectBadRequest({ defindex: 7, stickers: [{ slot: 0, sticker_id: 1 }] }, 'Unknown sticker_id 1');
+            await expectBadRequest({ defindex: 7, keychains: [{ slot: 0, sticker_id: 76 }] }, 'Unknown keychain sticker_id 76');
+        });
+
+        it('rejects two stickers in one slot', async () => {
+            await expectBadRequest(
+                { defindex: 7, stickers: [{ slot: 1, sticker_id: 76 }, { slot: 1, sticker_id: 76 }] },
+                'Every sticker needs its own slot',
+            );
+        });
+
+        it('rejects sticker slots out of range', async () => {
+            const errors = await validate(plainToInstance(GenDto, { defindex: 7, stickers: [{ slot: 6, sticker_id: 76 }] }));
+
+            expect(errors.map(error => error.property)).toEqual(['stickers']);
+            expect(errors[0].children[0].children[0].constraints).toHaveProperty('max');
+        });
+    });
+});
@@ -0,0 +1,100 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { GenDto } from './inspect.dto';
+import { InspectService } from './inspect.service';
+import { ParseService } from './parse.service';
+import { SchemaService } from './schema.service';
+import { encodePreviewDataBlock } from './preview-data-block';
+
+// Knives start at this definition index and carry the ★ quality
+const FIRST_KNIFE_DEFINDEX = 500;
+
+@Injectable()
+export class GenService {
+    constructor(
+        private schemaService: SchemaService,
+        private parseService: ParseService,
+        private inspectService: InspectService,
+    ) { }
+
+    /**
+     * Encode a hypothetical item into a masked inspect link and format it like an inspected one
+     */
+    public async generate(body: GenDto) {
+        this.validate(body);
+
+        const weapon = this.schemaService.schema.weapons[body.defindex];
+        const paint = body.paintindex ? weapon.paints[body.paintindex] : undefined;
+
+        let quality = body.defindex >= FIRST_KNIFE_DEFINDEX ? 3 : 4;
+        if (body.souvenir) {
+            quality = 12;
+        } else if (body.stattrak && quality !== 3) {
+            quality = 9;
+        }
+
+        const masked = encodePreviewDataBlock({
+            itemid: '0',
+            defindex: body.defindex,
+            paintindex: body.paintindex ?? 0,
+            rarity: paint?.rarity ?? 0,
+            quality,
+            paintwear: body.float ?? paint?.min ?? 0,
+            paintseed: body.paintseed ?? 0,
+            killeaterscoretype: body.stattrak ? 0 : undefined,
+            killeatervalue: body.stattrak ? 0 : undefined,
+            customname: body.customname,
+            stickers: body.stickers ?? [],
+            keychains: body.keychains ?? [],
+        });
+
+        // Formatted from the encoded link, so floats come back with the precision the game will show
+        const { link } = this.parseService.buildLinks({ s: '0', a: '0', d: '0', m: '0', masked });
+        return {
+            link,
+            ...(await this.inspectService.decodeOffline(masked)),
+        };
+    }
+
+    private validate(body: GenDto): void {
+        const schema = this.schemaService.schema;
+        const weapon = schema.weapons[body.defindex];
+        if (!weapon) {
+            throw new HttpException(`Unknown weapon defindex ${body.defindex}`, HttpStatus.BAD_REQUEST);
+        }
+
+        if (body.stattrak && body.souvenir) {
+            throw new HttpException('An item cannot be both StatTrak and Souvenir', HttpStatus.BAD_REQUEST);
+        }
+
+        if (body.paintindex) {
+            const paint = weapon.paints[body.paintindex];
+            if (!paint) {
+                throw new HttpException(`Paint ${body.paintindex} does not exist for ${weapon.name}`, HttpStatus.BAD_REQUEST);
+            }
+
+            if (body.float !== undefined && (body.float < paint.min || body.float > paint.max)) {
+                throw new HttpException(
+                    `Float of ${weapon.name} | ${paint.name} must be between ${paint.min} and ${paint.max}`,
+                    HttpStatus.BAD_REQUEST,
+                );
+            }
+        }
+
+        for (const sticker of body.stickers ?? []) {
+            if (!schema.stickers[sticker.sticker_id]) {
+                throw new HttpException(`Unknown sticker_id ${sticker.sticker_id}`, HttpStatus.BAD_REQUEST);
+            }
+        }
+
+        for (const keychain of body.keychains ?? []) {
+            if (!schema.keychains[keychain.sticker_id]) {
+                throw new HttpException(`Unknown keychain sticker_id ${keychain.sticker_id}`, HttpStatus.BAD_REQUEST);
+            }
+        }
+
+        const slots = (body.stickers ?? []).map(sticker => sticker.slot);
+        if (new Set(slots).size !== slots.length) {
+            throw new HttpException('Every sticker needs its own slot', HttpStatus.BAD_REQUEST);
+        }
+    }
+}
@@ -0,0 +1,199 @@
+import { HistoryType } from 'src/schemas/history.schema';
+import { StickerKeychain } from '../interfaces/schema.interface';
+import { HistoryClassifier, HistoryContext } from './history-classifier.interface';
+
+// Gifted and Wrapped Gift in the econ item origin enum
+const GIFT_ORIGINS = [6, 11];
+
+// The GC sets bit 30 of inventory on items the owner has not acknowledged yet
+const isUnacknowledged = (inventory?: number): boolean => !!inventory && ((inventory >>> 30) & 1) === 1;
+
+const isSteamId = (owner?: string): boolean => !!owner && owner.startsWith('7656');
+
+const ownerChanged = ({ current, previous }: HistoryContext): boolean =>
+    !!previous && current.owner !== previous.owner;
+
+/**
+ * First sighting of an item, classified by where it came from
+ */
+export const sourceClassifier: HistoryClassifier = {
+    name: 'source',
+    classify({ current, previous }) {
+        if (previous) return null;
+
+        if (GIFT_ORIGINS.includes(current.origin) && isUnacknowledged(current.inventory)) {
+            return HistoryType.GIFT_RECEIVED;
+        }
+        if (current.origin === 8) return HistoryType.TRADED_UP;
+        if (current.origin === 4) return HistoryType.DROPPED;
+        if (current.origin === 1) return HistoryType.PURCHASED_INGAME;
+        if (current.origin === 2) return HistoryType.UNBOXED;
+        if (current.origin === 3) return HistoryType.CRAFTED;
+        return HistoryType.UNKNOWN;
+    },
+};
+
+/**
+ * Transfers from or to one of the given trade bot accounts
+ */
+export const createTradeBotClassifier = (steamIds: string[]): HistoryClassifier => {
+    const tradeBots = new Set(steamIds);
+
+    return {
+        name: 'trade-bot',
+        classify(context) {
+            if (!ownerChanged(context)) return null;
+            return tradeBots.has(context.current.owner) || tradeBots.has(context.previous.owner)
+                ? HistoryType.TRADE_BOT
+                : null;
+        },
+    };
+};
+
+/**
+ * An item that went back to its previous owner shortly after a trade, i.e. a reverted trade
+ */
+export const createTradeCancelledClassifier = (reversalWindow: number): HistoryClassifier => ({
+    name: 'trade-cancelled',
+    classify(context) {
+        const { current, previousEvent } = context;
+        if (!ownerChanged(context) || previousEvent?.type !== HistoryType.TRADE) return null;
+
+        const elapsed = (current.seenAt ?? new Date()).getTime() - (previousEvent.createdAt?.getTime() ?? 0);
+        return current.owner === previousEvent.prevOwner && elapsed <= reversalWindow
+            ? HistoryType.TRADE_CANCELLED
+            : null;
+    },
+});
+
+/**
+ * Market listings are owned by their listing ID instead of a Steam ID
+ */
+export const marketClassifier: HistoryClassifier = {
+    name: 'market',
+    classify(context) {
+        const { current, previous, previousEvent } = context;
+        if (!ownerChanged(context)) return null;
+
+        if (isSteamId(previous.owner) && !isSteamId(current.owner)) {
+            return HistoryType.MARKET_LISTING;
+        }
+        if (!isSteamId(previous.owner) && !isSteamId(current.owner)) {
+            return HistoryType.MARKET_RELISTING;
+        }
+        if (!isSteamId(previous.owner) && isSteamId(current.owner)) {
+            // The seller is only known when the listing itself was recorded
+            const seller = previousEvent?.type === HistoryType.MARKET_LISTING ? previousEvent.prevOwner : undefined;
+            return current.owner === seller ? HistoryType.MARKET_CANCELLED : HistoryType.MARKET_BUY;
+        }
+        return null;
+    },
+};
+
+export const tradeClassifier: HistoryClassifier = {
+    name: 'trade',
+    classify(context) {
+        return ownerChanged(context) && isSteamId(context.previous.owner) && isSteamId(context.current.owner)
+            ? HistoryType.TRADE
+            : null;
+    },
+};
+
+export const nametagClassifier: HistoryClassifier = {
+    name: 'nametag',
+    classify({ current, previous }) {
+        if (!previous || current.owner !== previous.owner) return null;
+
+        if (current.customName && !previous.customName) {
+            return HistoryType.NAMETAG_ADDED;
+        }
+        if (!current.customName && previous.customName) {
+            return HistoryType.NAMETAG_REMOVED;
+        }
+        if (current.customName && current.customName !== previous.customName) {
+            // Renaming applies a new name tag over the old one
+            return HistoryType.NAMETAG_ADDED;
+        }
+        return null;
+    },
+};
+
+export const stickerClassifier: HistoryClassifier = {
+    name: 'sticker',
+    classify({ current, previous }) {
+        if (!previous || current.owner !== previous.owner) return null;
+        return detectStickerChanges(current.stickers, previous.stickers);
+    },
+};
+
+export const keychainClassifier: HistoryClassifier = {
+    name: 'keychain',
+    classify({ current, previous }) {
+        if (!previous || current.owner !== previous.owner) return null;
+        return detectKeychainChanges(current.keychains, previous.keychains);
+    },
+};
+
+/**
+ * Same owner and nothing changed but the asset ID: the item was moved into a storage unit and back out.
+ * Items in a storage unit cannot be inspected, so storing is never observed on its own and
+ * STORAGE_UNIT_STORED is not emitted.
+ */
+export const storageUnitClassifier: HistoryClassifier = {
+    name: 'storage-unit',
+    classify({ current, previous }) {
+        if (!previous || current.owner !== previous.owner || current.assetId === previous.assetId) return null;
+        return isUnacknowledged(current.inventory) ? null : HistoryType.STORAGE_UNIT_RETRIEVED;
+    },
+};
+
+const detectStickerChanges = (currentStickers: StickerKeychain[], previousStickers: StickerKeychain[]): HistoryType | null => {
+    if (!currentStickers || !previousStickers) return null;
+
+    if (currentStickers.length > previousStickers.length) {
+        return HistoryType.STICKER_APPLY;
+    }
+
+    if (currentStickers.length < previousStickers.length) {
+        return HistoryType.STICKER_REMOVE;
+    }
+
+    for (const current of currentStickers) {
+        const previous = previousStickers.find(
+            prev => prev.offset_x === current.offset_x &&
+                prev.offset_y === current.offset_y &&
+                prev.offset_z === current.offset_z &&
+                prev.rotation === current.rotation &&
+                prev.slot === current.slot &&
+                prev.sticker_id === current.sticker_id
+        );
+
+        if (!previous) {
+            return HistoryType.STICKER_CHANGE;
+        }
+
+        if (current.wear !== previous.wear) {
+            if (current.wear > previous.wear) {
+                return HistoryType.STICKER_SCRAPE;
+            }
+            return HistoryType.STICKER_CHANGE;
+        }
+    }
+
+    return null;
+};
+
+const detectKeychainChanges = (currentKeychains: StickerKeychain[], previousKeychains: StickerKeychain[]): HistoryType | null => {
+    if (!currentKeychains || !previousKeychains) return null;
+
+    if (currentKeychains.length === 0 && previousKeychains.length > 0) {
+        return HistoryType.KEYCHAIN_REMOVED;
+    }
+    if (currentKeychains.length > 0 && previousKeychains.length === 0) {
+        return HistoryType.KEYCHAIN_ADDED;
+    }
+    if (JSON.stringify(currentKeychains) !== JSON.stringify(previousKeychains)) {
+        return HistoryType.KEYCHAIN_CHANGED;
+    }
+    return null;
+};
@@ -0,0 +1,36 @@
+import { HistoryType } from 'src/schemas/history.schema';
+import { StickerKeychain } from '../interfaces/schema.interface';
+
+/**
+ * An item as it was inspected or stored, owner being the Steam ID or market listing ID from the inspect link
+ */
+export interface HistoryItem {
+    assetId: number;
+    owner?: string;
+    origin?: number;
+    inventory?: number;
+    customName?: string;
+    stickers?: StickerKeychain[];
+    keychains?: StickerKeychain[];
+    seenAt?: Date;
+}
+
+export interface HistoryContext {
+    // The item that was just inspected
+    current: HistoryItem;
+    // The last stored sighting of the same item, if any
+    previous?: HistoryItem;
+    // The event recorded for the previous sighting, if any
+    previousEvent?: {
+        type: HistoryType;
+        owner?: string;
+        prevOwner?: string;
+        createdAt?: Date;
+    };
+}
+
+export interface HistoryClassifier {
+    name: string;
+    // The event the classifier recognizes, or null to leave it to the next classifier
+    classify(context: HistoryContext): HistoryType | null;
+}
@@ -0,0 +1,266 @@
+import { HistoryType } from 'src/schemas/history.schema';
+import { StickerKeychain } from '../interfaces/schema.interface';
+import { HistoryContext, HistoryItem } from './history-classifier.interface';
+import { HistoryClassifierService } from './history-classifier.service';
+
+const ALICE = '76561198000000011';
+const BOB = '76561198000000012';
+const CAROL = '76561198000000013';
+const TRADE_BOT = '76561198000000001';
+const LISTING = '4213867530021';
+const RELISTING = '4213867530099';
+
+const DAY = 24 * 60 * 60 * 1000;
+const UNACKNOWLEDGED = 1 << 30;
+
+const sticker = (slot: number, stickerId: number, wear: number | null = null): StickerKeychain => ({
+    slot,
+    sticker_id: stickerId,
+    wear,
+    scale: null,
+    rotation: null,
+    tint_id: null,
+    offset_x: null,
+    offset_y: null,
+    offset_z: null,
+});
+
+/**
+ * A sighting on the given day, the asset ID only changes where a sighting overrides it
+ */
+const sighting = (day: number, item: Partial<HistoryItem>): HistoryItem => ({
+    assetId: 1000,
+    origin: 2,
+    inventory: 5,
+    stickers: [],
+    keychains: [],
+    seenAt: new Date(Date.UTC(2026, 0, 1) + day * DAY),
+    ...item,
+});
+
+/**
+ * Classify the sightings one after another the way InspectService records them,
+ * each context carries the previous sighting and the event recorded for it
+ */
+const replay = (service: HistoryClassifierService, sightings: HistoryItem[]): HistoryType[] => {
+    let previousEvent: HistoryContext['previousEvent'];
+
+    return sightings.map((current, index) => {
+        const previous = sightings[index - 1];
+        const type = service.classify({ current, previous, previousEvent });
+        previousEvent = { type, owner: current.owner, prevOwner: previous?.owner, createdAt: current.seenAt };
+        return type;
+    });
+};
+
+describe('HistoryClassifierService', () => {
+    let service: HistoryClassifierService;
+
+    beforeEach(() => {
+        process.env.TRADE_BOT_STEAMIDS = TRADE_BOT;
+        service = new HistoryClassifierService();
+    });
+
+    afterEach(() => {
+        delete process.env.TRADE_BOT_STEAMIDS;
+    });
+
+    it('classifies the first sighting by its origin', () => {
+        const sources: [Partial<HistoryItem>, HistoryType][] = [
+            [{ origin: 2 }, HistoryType.UNBOXED],
+            [{ origin: 3 }, HistoryType.CRAFTED],
+            [{ origin: 4 }, HistoryType.DROPPED],
+            [{ origin: 1 }, HistoryType.PURCHASED_INGAME],
+            [{ origin: 8 }, HistoryType.TRADED_UP],
+            [{ origin: 6, inventory: UNACKNOWLEDGED | 5 }, HistoryType.GIFT_RECEIVED],
+            [{ origin: 11, inventory: UNACKNOWLEDGED | 5 }, HistoryType.GIFT_RECEIVED],
+            [{ origin: 6 }, HistoryType.UNKNOWN],
+            [{ origin: 0 }, HistoryType.UNKNOWN],
+        ];
+
+        for (const [item, type] of sources) {
+            expect(service.classify({ current: sighting(0, { owner: ALICE, ...item }) })).toBe(type);
+        }
+    });
+
+    it('follows an item through trades and the market', () => {
+        const types = replay(service, [
+            sighting(0, { owner: ALICE }),
+            sighting(10, { owner: BOB, assetId: 1001 }),
+            sighting(20, { owner: LISTING, assetId: 1002 }),
+            sighting(21, { owner: RELISTING, assetId: 1003 }),
+            sighting(22, { owner: CAROL, assetId: 1004 }),
+        ]);
+
+        expect(types).toEqual([
+            HistoryType.UNBOXED,
+            HistoryType.TRADE,
+            HistoryType.MARKET_LISTING,
+            HistoryType.MARKET_RELISTING,
+            HistoryType.MARKET_BUY,
+        ]);
+    });
+
+    it('recognizes a listing taken down by its seller', () => {
+        const types = replay(service, [
+            sighting(0, { owner: ALICE }),
+            sighting(1, { owner: LISTING, assetId: 1001 }),
+            sighting(2, { owner: ALICE, assetId: 1002 }),
+        ]);
+
+        expect(types).toEqual([HistoryType.UNBOXED, HistoryType.MARKET_LISTING, HistoryType.MARKET_CANCELLED]);
+    });
+
+    it('treats a relisted item coming back as a purchase, the seller is no longer known', () => {
+        const types = replay(service, [
+            sighting(0, { owner: ALICE }),
+            sighting(1, { owner: LISTING, assetId: 1001 }),
+            sighting(2, { owner: RELISTING, assetId: 1002 }),
+            sighting(3, { owner: ALICE, assetId: 1003 }),
+        ]);
+
+        expect(types[3]).toBe(HistoryType.MARKET_BUY);
+    });
+
+    it('recognizes a trade reverted within the reversal window', () => {
+        const types = replay(service, [
+            sighting(0, { owner: ALICE }),
+            sighting(1, { owner: BOB, assetId: 1001 }),
+            sighting(3, { owner: ALICE, assetId: 1002 }),
+        ]);
+
+        expect(types).toEqual([HistoryType.UNBOXED, HistoryType.TRADE, HistoryType.TRADE_CANCELLED]);
+    });
+
+    it('treats an item traded back after the reversal window as a trade', () => {
+        const types = replay(service, [
+            sighting(0, { owner: ALICE }),
+            sighting(1, { owner: BOB, assetId: 1001 }),
+            sighting(30, { owner: ALICE, assetId: 1002 }),
+        ]);
+
+        expect(types[2]).toBe(HistoryType.TRADE);
+    });
+
+    it('recognizes transfers from and to trade bots', () => {
+        const types = replay(service, [
+            sighting(0, { owner: ALICE }),
+            sighting(1, { owner: TRADE_BOT, assetId: 1001 }),
+            sighting(2, { owner: BOB, assetId: 1002 }),
+        ]);
+
+        expect(types).toEqual([HistoryType.UNBOXED, HistoryType.TRADE_BOT, HistoryType.TRADE_BOT]);
+    });
+
+    it('recognizes name tags', () => {
+        const types = replay(service, [
+            sighting(0, { owner: ALICE }),
+            sighting(1, { owner: ALICE, customName: 'First' }),
+            sighting(2, { owner: ALICE, customName: 'Second' }),
+            sighting(3, { owner: ALICE }),
+        ]);
+
+        expect(types).toEqual([
+            HistoryType.UNBOXED,
+            HistoryType.NAMETAG_ADDED,
+            HistoryType.NAMETAG_ADDED,
+            HistoryType.NAMETAG_REMOVED,
+        ]);
+    });
+
+    it('recognizes sticker changes', () => {
+        const types = replay(service, [
+            sighting(0, { owner: ALICE }),
+            sighting(1, { owner: ALICE, stickers: [sticker(0, 5935)] }),
+            sighting(2, { owner: ALICE, stickers: [sticker(0, 5935, 0.3)] }),
+            sighting(3, { owner: ALICE, stickers: [sticker(0, 76, 0.3)] }),
+            sighting(4, { owner: ALICE, stickers: [] }),
+        ]);
+
+        expect(types).toEqual([
+            HistoryType.UNBOXED,
+            HistoryType.STICKER_APPLY,
+            HistoryType.STICKER_SCRAPE,
+            HistoryType.STICKER_CHANGE,
+            HistoryType.STICKER_REMOVE,
+        ]);
+    });
+
+    it('recognizes keychain changes', () => {
+        const types = replay(service, [
+            sighting(0, { owner: ALICE }),
+            sighting(1, { owner: ALICE, keychains: [{ ...sticker(0, 1), pattern: 100 }] }),
+            sighting(2, { owner: ALICE, keychains: [{ ...sticker(0, 2), pattern: 100 }] }),
+            sighting(3, { owner: ALICE, keychains: [] }),
+        ]);
+
+        expect(types).toEqual([
+            HistoryType.UNBOXED,
+            HistoryType.KEYCHAIN_ADDED,
+            HistoryType.KEYCHAIN_CHANGED,
+            HistoryType.KEYCHAIN_REMOVED,
+        ]);
+    });
+
+    it('recognizes an item taken out of a storage unit but never one stored', () => {
+        const types = replay(service, [
+            sighting(0, { owner: ALICE }),
+            sighting(5, { owner: ALICE, assetId: 1001 }),
+        ]);
+
+        expect(types).toEqual([HistoryType.UNBOXED, HistoryType.STORAGE_UNIT_RETRIEVED]);
+    });
+
+    it('does not emit the events that cannot be observed', () => {
+        const types = replay(service, [
+            sighting(0, { owner: ALICE }),
+            sighting(1, { owner: BOB, assetId: 1001 }),
+            sighting(2, { owner: BOB, assetId: 1002 }),
+            sighting(3, { owner: CAROL, assetId: 1003, origin: 11, inventory: UNACKNOWLEDGED | 5 }),
+        ]);
+
+        expect(types).not.toContain(HistoryType.STORAGE_UNIT_STORED);
+        expect(types).not.toContain(HistoryType.GIFT_SENT);
+    });
+
+    it('leaves unchanged sightings as unknown', () => {
+        const types = replay(service, [
+            sighting(0, { owner: ALICE }),
+            sighting(1, { owner: ALICE }),
+        ]);
+
+        expect(types[1]).toBe(HistoryType.UNKNOWN);
+    });
+
+    it('runs registered classifiers in the requested position', () => {
+        service.register(
+            { name: 'contract', classify: ({ current }) => current.owner === CAROL ? HistoryType.CONTRACT_COMPLETED : null },
+            { before: 'trade' },
+        );
+        service.register({ name: 'fallback', classify: () => HistoryType.CONTRACT_CANCELLED });
+
+        const types = replay(service, [
+            sighting(0, { owner: ALICE }),
+            sighting(1, { owner: ALICE }),
+            sighting(2, { owner: LISTING, assetId: 1001 }),
+            sighting(3, { owner: CAROL, assetId: 1002 }),
+            sighting(4, { owner: CAROL, assetId: 1003 }),
+        ]);
+
+        expect(types).toEqual([
+            HistoryType.UNBOXED,
+            HistoryType.CONTRACT_CANCELLED,
+            HistoryType.MARKET_LISTING,
+            HistoryType.MARKET_BUY,
+            HistoryType.CONTRACT_COMPLETED,
+        ]);
+    });
+
+    it('skips classifiers that throw', () => {
+        const failing = jest.fn(() => { throw new Error('broken'); });
+        service.register({ name: 'failing', classify: failing }, { before: 'source' });
+
+        expect(service.classify({ current: sighting(0, { owner: ALICE }) })).toBe(HistoryType.UNBOXED);
+        expect(failing).toHaveBeenCalled();
+    });
+});
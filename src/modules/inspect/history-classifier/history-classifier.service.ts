@@ -0,0 +1,63 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HistoryType } from 'src/schemas/history.schema';
+import { HistoryClassifier, HistoryContext } from './history-classifier.interface';
+import {
+    createTradeBotClassifier,
+    createTradeCancelledClassifier,
+    keychainClassifier,
+    marketClassifier,
+    nametagClassifier,
+    sourceClassifier,
+    stickerClassifier,
+    storageUnitClassifier,
+    tradeClassifier,
+} from './classifiers';
+
+/**
+ * Runs the classifiers in order, the first one to recognize the event wins
+ */
+@Injectable()
+export class HistoryClassifierService {
+    private readonly logger = new Logger(HistoryClassifierService.name);
+    private readonly TRADE_BOT_STEAMIDS = (process.env.TRADE_BOT_STEAMIDS || '').split(',').map(id => id.trim()).filter(Boolean);
+    private readonly TRADE_REVERSAL_WINDOW = parseInt(process.env.TRADE_REVERSAL_WINDOW || '604800000'); // 7 days
+
+    private classifiers: HistoryClassifier[] = [
+        sourceClassifier,
+        createTradeBotClassifier(this.TRADE_BOT_STEAMIDS),
+        createTradeCancelledClassifier(this.TRADE_REVERSAL_WINDOW),
+        marketClassifier,
+        tradeClassifier,
+        nametagClassifier,
+        stickerClassifier,
+        keychainClassifier,
+        storageUnitClassifier,
+    ];
+
+    /**
+     * Add a classifier, by default after the built-in ones
+     */
+    public register(classifier: HistoryClassifier, options: { before?: string } = {}): void {
+        const index = options.before ? this.classifiers.findIndex(c => c.name === options.before) : -1;
+        if (index === -1) {
+            this.classifiers.push(classifier);
+        } else {
+            this.classifiers.splice(index, 0, classifier);
+        }
+    }
+
+    public classify(context: HistoryContext): HistoryType {
+        for (const classifier of this.classifiers) {
+            try {
+                const type = classifier.classify(context);
+                if (type !== null) {
+                    return type;
+                }
+            } catch (error) {
+                this.logger.error(`History classifier ${classifier.name} failed: ${error.message}`);
+            }
+        }
+
+        return HistoryType.UNKNOWN;
+    }
+}
@@ -0,0 +1,121 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { History, HistoryDocument, HistoryType } from 'src/schemas/history.schema';
+import { StickerKeychain } from './interfaces/schema.interface';
+import { SchemaService } from './schema.service';
+
+export interface AttachmentDiff {
+    added: StickerKeychain[];
+    removed: StickerKeychain[];
+    changed: Array<{ slot: number; from: StickerKeychain; to: StickerKeychain }>;
+    scraped: Array<{ slot: number; sticker_id: number; from: number | null; to: number | null }>;
+}
+
+@Injectable()
+export class HistoryService {
+    private readonly MAX_DEPTH = parseInt(process.env.HISTORY_MAX_DEPTH || '100');
+
+    constructor(
+        @InjectModel(History.name)
+        private historyModel: Model<HistoryDocument>,
+        private schemaService: SchemaService,
+    ) { }
+
+    /**
+     * Timeline of an item, oldest event first
+     */
+    public async getTimeline(query: { a?: string; uniqueId?: string }) {
+        if (!query.a && !query.uniqueId) {
+            throw new HttpException('Either a or uniqueId is required', HttpStatus.BAD_REQUEST);
+        }
+
+        const entries = query.a
+            ? await this.walkChain(parseInt(query.a, 10))
+            : await this.historyModel.find({ uniqueId: query.uniqueId }).sort({ createdAt: -1 }).limit(this.MAX_DEPTH).lean().exec();
+
+        if (entries.length === 0) {
+            throw new HttpException('No history found for this item', HttpStatus.NOT_FOUND);
+        }
+
+        return {
+            uniqueId: entries[0].uniqueId,
+            assetId: entries[0].assetId,
+            events: entries.reverse().map(entry => this.toEvent(entry)),
+        };
+    }
+
+    /**
+     * Follow prevAssetId from the given asset back to the oldest known one, newest first
+     */
+    private async walkChain(assetId: number): Promise<any[]> {
+        const entries = [];
+        const seen = new Set<number>();
+
+        let next: number | undefined = assetId;
+        while (next && !seen.has(next) && entries.length < this.MAX_DEPTH) {
+            seen.add(next);
+
+            const entry = await this.historyModel.findOne({ assetId: next }).sort({ createdAt: -1 }).lean().exec();
+            if (!entry) {
+                break;
+            }
+
+            entries.push(entry);
+            next = entry.prevAssetId;
+        }
+
+        return entries;
+    }
+
+    private toEvent(entry: any) {
+        return {
+            type: HistoryType[entry.type] ?? HistoryType[HistoryType.UNKNOWN],
+            typeId: entry.type,
+            assetId: entry.assetId,
+            prevAssetId: entry.prevAssetId,
+            // Steam IDs exceed the safe integer range, strings keep clients from rounding them further
+            owner: entry.owner?.toString(),
+            prevOwner: entry.prevOwner?.toString(),
+            d: entry.d,
+            stickers: this.diff(entry.prevStickers, entry.stickers, 'stickers'),
+            keychains: this.diff(entry.prevKeychains, entry.keychains, 'keychains'),
+            customName: entry.customName,
+            prevCustomName: entry.prevCustomName,
+            createdAt: entry.createdAt,
+        };
+    }
+
+    private diff(
+        previous: StickerKeychain[] = [],
+        current: StickerKeychain[] = [],
+        kind: 'stickers' | 'keychains',
+    ): AttachmentDiff {
+        const named = (item: StickerKeychain) => ({
+            ...item,
+            market_hash_name: this.schemaService.schema?.[kind]?.[item.sticker_id]?.market_hash_name,
+        });
+        const before = new Map(previous.map(item => [item.slot, item]));
+        const after = new Map(current.map(item => [item.slot, item]));
+        const diff: AttachmentDiff = { added: [], removed: [], changed: [], scraped: [] };
+
+        for (const [slot, item] of after) {
+            const old = before.get(slot);
+            if (!old) {
+                diff.added.push(named(item));
+            } else if (old.sticker_id !== item.sticker_id) {
+                diff.changed.push({ slot, from: named(old), to: named(item) });
+            } else if ((item.wear ?? 0) > (old.wear ?? 0)) {
+                diff.scraped.push({ slot, sticker_id: item.sticker_id, from: old.wear, to: item.wear });
+            }
+        }
+
+        for (const [slot, item] of before) {
+            if (!after.has(slot)) {
+                diff.removed.push(named(item));
+            }
+        }
+
+        return diff;
+    }
+}
@@ -1,41 +1,124 @@
-import { Controller, Get, Query, Res } from '@nestjs/common'
+import { Body, Controller, Get, MessageEvent, Param, Post, Query, Res, Sse, UseGuards } from '@nestjs/common'
+import { Observable } from 'rxjs'
 import { FastifyReply } from 'fastify'
 import { InspectService } from './inspect.service'
-import { InspectDto } from './inspect.dto'
+import { JobService } from './job.service'
+import { BulkInspectDto, CaseHardenedDto, EventsDto, GenDto, HistoryDto, InspectDto, PatternSearchDto, RankingsDto } from './inspect.dto'
+import { EventsService } from './events.service'
+import { MetricsService } from './metrics.service'
+import { SchemaService } from './schema.service'
+import { RankingService } from './ranking.service'
+import { HistoryService } from './history.service'
+import { GenService } from './gen.service'
+import { CaseHardenedService } from './case-hardened.service'
+import { PatternSearchService } from './pattern-search.service'
+import { ApiKeyGuard } from '../auth/api-key.guard'
+import { ChargePerItem, CurrentApiKey, ServesDocumentation } from '../auth/api-key.decorator'
+import { ApiKeyDocument } from 'src/schemas/api-key.schema'
 
 @Controller()
+@UseGuards(ApiKeyGuard)
 export class InspectController {
-    constructor(private readonly inspectService: InspectService) { }
+    constructor(
+        private readonly inspectService: InspectService,
+        private readonly jobService: JobService,
+        private readonly eventsService: EventsService,
+        private readonly metricsService: MetricsService,
+        private readonly schemaService: SchemaService,
+        private readonly rankingService: RankingService,
+        private readonly historyService: HistoryService,
+        private readonly genService: GenService,
+        private readonly caseHardenedService: CaseHardenedService,
+        private readonly patternSearchService: PatternSearchService,
+    ) { }
 
     @Get([
         '',
         'inspect',
         'float',
     ])
+    @ServesDocumentation()
     async inspect(
         @Query() query: InspectDto,
-        @Res() res: FastifyReply
+        @Res() res: FastifyReply,
+        @CurrentApiKey() apiKey?: ApiKeyDocument,
     ) {
         if (!query || Object.keys(query).length === 0) {
             res.type('text/html').send(this.getApiDocumentation())
             return
         }
 
-        /*
-        if (process.env.PASSWORD && query.password !== process.env.PASSWORD) {
-            return res.status(401).send({ message: 'Invalid password' })
-        }
-        */
-
-        const data = await this.inspectService.inspectItem(query)
+        const data = await this.inspectService.inspectItem(query, apiKey)
         return res.send(data)
     }
 
+    @Post('bulk')
+    @ChargePerItem('links')
+    async bulk(
+        @Body() body: BulkInspectDto,
+        @CurrentApiKey() apiKey?: ApiKeyDocument,
+    ) {
+        return this.inspectService.inspectBulk(body, apiKey)
+    }
+
+    @Post('gen')
+    async gen(@Body() body: GenDto) {
+        return this.genService.generate(body)
+    }
+
+    @Get('jobs/:id')
+    async job(@Param('id') id: string) {
+        return this.jobService.get(id)
+    }
+
+    @Sse('events')
+    events(@Query() query: EventsDto): Observable<MessageEvent> {
+        return this.eventsService.stream(query)
+    }
+
+    @Get('link')
+    async link(
+        @Query() query: InspectDto,
+        @CurrentApiKey() apiKey?: ApiKeyDocument,
+    ) {
+        return this.inspectService.getLinks(query, apiKey)
+    }
+
+    @Get('rankings')
+    async rankings(@Query() query: RankingsDto) {
+        return this.rankingService.getTop(query.defindex, query.paintindex, query.variant ?? 'normal', query.limit ?? 10)
+    }
+
+    @Get('history')
+    async history(@Query() query: HistoryDto) {
+        return this.historyService.getTimeline(query)
+    }
+
+    @Get('patterns/ch')
+    async caseHardened(@Query() query: CaseHardenedDto) {
+        return this.caseHardenedService.lookup(query.weapon, query.seed, query.finish)
+    }
+
+    @Get('search/patterns')
+    async searchPatterns(@Query() query: PatternSearchDto) {
+        return this.patternSearchService.search(query)
+    }
+
     @Get('stats')
     async stats() {
         return this.inspectService.stats()
     }
 
+    @Get('schema')
+    async schema() {
+        return this.schemaService.getInfo()
+    }
+
+    @Get('metrics')
+    async metrics(@Res() res: FastifyReply) {
+        res.type(this.metricsService.contentType).send(await this.metricsService.render())
+    }
+
     private getApiDocumentation() {
         return `
             <!DOCTYPE html>
@@ -192,6 +275,9 @@ export class InspectController {
                         display: flex;
                         flex-direction: column;
                     }
+                    .form-key-wrapper {
+                        flex: 0 0 220px;
+                    }
                     .error-message {
                         color: #ff3352;
                         font-size: 14px;
@@ -353,6 +439,15 @@ export class InspectController {
                                 Please enter a valid CS2 inspect link (steam://rungame/...)
                             </div>
                         </div>
+                        <div class="form-input-wrapper form-key-wrapper">
+                            <input 
+                                type="password" 
+                                name="key" 
+                                id="apiKey"
+                                placeholder="API key" 
+                                autocomplete="off"
+                            />
+                        </div>
                         <button type="submit">Inspect</button>
                     </form>
                 </div>
@@ -378,16 +473,24 @@ export class InspectController {
                         // Validate steam inspect URL format
                         const steamUrlPattern = /^(?:steam:\\/\\/rungame\\/730\\/|https?:\\/\\/(?:www\\.)?steamcommunity\\.com\\/market\\/listings\\/730\\/.*[?&]inspectlink=steam:\\/\\/rungame\\/730\\/)/i;
                         
+                        // Shortened links only contain the parameters of the inspect link
+                        const shortLinkPattern = /^[SM]\\d+A\\d+D\\d+$/i;
+
                         // Check for S, A, D, M parameters format
                         const paramPattern = /[?&](?:s=\\d+&a=\\d+&d=\\d+&m=\\d+|[SADM]=\\d+)/i;
 
-                        if (!steamUrlPattern.test(value) && !paramPattern.test(value)) {
+                        if (!steamUrlPattern.test(value) && !shortLinkPattern.test(value) && !paramPattern.test(value)) {
                             showError('Please enter a valid CS2 inspect link');
                             return false;
                         }
 
+                        // The key is kept in this browser only, so it does not have to be pasted again
+                        const key = document.getElementById('apiKey').value.trim();
+                        localStorage.setItem('inspectApiKey', key);
+
                         // If validation passes, manually submit the form
-                        window.location.href = \`/inspect?url=\${encodeURIComponent(value)}\`;
+                        const keyParam = key ? \`&key=\${encodeURIComponent(key)}\` : '';
+                        window.location.href = \`/inspect?url=\${encodeURIComponent(value)}\${keyParam}\`;
                         return true;
                     }
 
@@ -402,6 +505,8 @@ export class InspectController {
                         return false;
                     }
 
+                    document.getElementById('apiKey').value = localStorage.getItem('inspectApiKey') || '';
+
                     // Update the input event listener to not trigger form submission
                     document.getElementById('inspectLink').addEventListener('input', function() {
                         const errorMessage = document.getElementById('errorMessage');
@@ -414,18 +519,30 @@ export class InspectController {
 
                 <div class="endpoint">
                     <h2>API Documentation</h2>
+
+                    <h3>Authentication</h3>
+                    <p>Every endpoint except this page requires an API key, unless the server runs with <code>API_KEYS_ENABLED=false</code>. Pass it in the <code>X-API-Key</code> header or, for clients that cannot set headers (browsers, <code>EventSource</code>, Prometheus), in the <code>key</code> query parameter. The former <code>password</code> query parameter is still accepted as an alias of <code>key</code>. Requests without a valid key are answered with <code>401</code>, routes the key may not call with <code>403</code>, exhausted limits with <code>429</code>. <code>POST /bulk</code> counts once per link against the per-minute limit and the daily quota.</p>
+
+                    <div class="example">
+                        <h4>Example Requests:</h4>
+                        <pre>curl -H "X-API-Key: &lt;key&gt;" "http://localhost:3000/inspect?url=..."
+GET /inspect?url=...&key=&lt;key&gt;</pre>
+                    </div>
                     
                     <h3>GET /inspect</h3> 
                     <p>Inspect a CS2 item using various input methods.</p>
 
                     <h4>Query Parameters:</h4>
                     <ul>
-                        <li><code>link</code> - Steam inspect link</li>
+                        <li><code>url</code> - Inspect link: a <code>steam://</code> link, a Steam market link with <code>inspectlink=</code>, only its <code>S...A...D...</code> part, or a Steam inventory item URL (<code>/profiles/&lt;id&gt;/inventory/#730_2_&lt;assetid&gt;</code>, with <code>#</code> encoded as <code>%23</code>) together with <code>d</code>. Masked links, which carry the item as hex instead of <code>S...A...D...</code>, are decoded without a bot and answered with <code>decoded_offline: true</code></li>
                         <li><code>s</code> - param S from inspect link</li>
                         <li><code>a</code> - param A from inspect link</li>
                         <li><code>d</code> - param D from inspect link</li>
                         <li><code>m</code> - param M from inspect link</li>
                         <li><code>refresh</code> - (optional) Set to true to refresh sticker data (if enabled)</li>
+                        <li><code>reply</code> - (optional) Set to false to inspect in the background, the response contains a <code>jobId</code> for <code>GET /jobs/:id</code></li>
+                        <li><code>callback</code> - (optional) URL that receives a signed POST with the result once a background inspection finishes</li>
+                        <li><code>priority</code> - (optional) <code>high</code>, <code>normal</code> or <code>low</code>. High priority requires an API key that allows it</li>
                     </ul>
 
                     <div class="example">
@@ -485,6 +602,165 @@ export class InspectController {
 }</pre>
                     </div>
 
+                    <p>Case Hardened, Fade, Marble Fade, Doppler and Gamma Doppler skins also have a <code>pattern_info</code> object with the pattern <code>type</code>, the <code>tier</code> or fade <code>percentage</code> and <code>fade_rank</code>, blue and gold percentages where known, and the <code>source</code> dataset.</p>
+
+                    <h3>POST /bulk</h3>
+                    <p>Inspect many items in one request. Cached items are answered immediately, the rest are queued. Results and errors are keyed by asset id.</p>
+
+                    <h4>Body:</h4>
+                    <ul>
+                        <li><code>links</code> - Array of inspect links or <code>{ s, a, d, m }</code> objects</li>
+                        <li><code>refresh</code> - (optional) Skip the cache for every item</li>
+                        <li><code>lowPriority</code> - (optional) Queue the items with low priority</li>
+                        <li><code>priority</code> - (optional) <code>high</code>, <code>normal</code> or <code>low</code>, limited by the API key</li>
+                    </ul>
+
+                    <div class="example">
+                        <h4>Example Request:</h4>
+                        <pre>POST /bulk
+{
+  "links": [
+    "steam://rungame/730/76561202255233023/+csgo_econ_action_preview%20S76561198023809011A40368145941D14586214085613790969",
+    { "s": "76561198023809011", "a": "40368145941", "d": "14586214085613790969" }
+  ]
+}</pre>
+                    </div>
+
+                    <h3>GET /jobs/:id</h3>
+                    <p>Get the status of a background inspection started with <code>reply=false</code>. The status is one of <code>queued</code> (waiting for a bot), <code>running</code> (a bot is inspecting it, <code>attempts</code> counts retries with other bots), <code>succeeded</code>, <code>failed</code> or <code>timed-out</code>; once succeeded, <code>result</code> holds the same response as <code>GET /inspect</code>.</p>
+
+                    <div class="example">
+                        <h4>Example Request:</h4>
+                        <pre>GET /jobs/665f1c2e9b1d4a0012345678</pre>
+                    </div>
+
+                    <h3>GET /events</h3>
+                    <p>Server-Sent Events stream of every inspection the service completes, formatted like <code>GET /inspect</code>. Browsers' <code>EventSource</code> cannot send headers, pass the API key as <code>key</code>.</p>
+
+                    <h4>Query Parameters:</h4>
+                    <ul>
+                        <li><code>defindex</code> - (optional) Only items with this definition index</li>
+                        <li><code>paintindex</code> - (optional) Only items with this paint index</li>
+                        <li><code>minFloat</code> / <code>maxFloat</code> - (optional) Float range</li>
+                        <li><code>pattern</code> - (optional) Pattern tier, e.g. <code>Tier 1</code></li>
+                    </ul>
+
+                    <div class="example">
+                        <h4>Example Request:</h4>
+                        <pre>const events = new EventSource('/events?defindex=507&maxFloat=0.01&key=&lt;key&gt;')</pre>
+                    </div>
+
+                    <h3>GET /metrics</h3>
+                    <p>Prometheus metrics: inspection counters, inspection latency histogram, bot states per worker and queue depth per priority. Prometheus cannot send the <code>X-API-Key</code> header, pass the key as a query parameter in the scrape config.</p>
+
+                    <div class="example">
+                        <h4>Example scrape config:</h4>
+                        <pre>scrape_configs:
+  - job_name: inspect
+    metrics_path: /metrics
+    params:
+      key: ['&lt;key&gt;']
+    static_configs:
+      - targets: ['localhost:3000']</pre>
+                    </div>
+
+                    <h3>GET /schema</h3>
+                    <p>Version, source and load time of the item schema in use.</p>
+
+                    <h3>GET /rankings</h3>
+                    <p>Lowest and highest floats stored for a skin. The <code>low_rank</code>, <code>high_rank</code> and <code>total_count</code> fields of <code>GET /inspect</code> use the same ranking.</p>
+
+                    <h4>Query Parameters:</h4>
+                    <ul>
+                        <li><code>defindex</code> - Weapon definition index</li>
+                        <li><code>paintindex</code> - Paint index</li>
+                        <li><code>variant</code> - (optional) <code>normal</code> (default), <code>stattrak</code> or <code>souvenir</code></li>
+                        <li><code>limit</code> - (optional) Number of items per list, default 10, at most 100</li>
+                    </ul>
+
+                    <div class="example">
+                        <h4>Example Request:</h4>
+                        <pre>GET /rankings?defindex=7&paintindex=44&variant=stattrak</pre>
+                    </div>
+
+                    <h3>GET /history</h3>
+                    <p>Timeline of an item, oldest event first. Every event has its type (e.g. <code>TRADE</code>, <code>MARKET_BUY</code>, <code>STICKER_APPLY</code>), the owners before and after, the stickers and keychains that were added, removed, changed or scraped, and the name tag before and after (<code>customName</code>, <code>prevCustomName</code>).</p>
+
+                    <h4>Query Parameters:</h4>
+                    <ul>
+                        <li><code>a</code> - Asset ID, the timeline follows the item back through its previous asset IDs</li>
+                        <li><code>uniqueId</code> - Alternatively, the item's unique ID</li>
+                    </ul>
+
+                    <div class="example">
+                        <h4>Example Request:</h4>
+                        <pre>GET /history?a=35678726741</pre>
+                    </div>
+
+                    <h3>GET /link</h3>
+                    <p>Canonical inspect link for an inspect link in any of the usual variants (market pages with <code>inspectlink=</code>, <code>%20</code>, <code>+</code> or a space before the parameters, lowercase letters) or for <code>s</code>/<code>a</code>/<code>d</code>/<code>m</code>. Also returns where the item can be found on Steam Community:</p>
+                    <ul>
+                        <li><code>inventory_url</code> - Inventory page of the item, for every inventory (<code>S</code>) link</li>
+                        <li><code>market_url</code> - Market page of the item. For market listing (<code>M</code>) links it is always returned, listings that were not inspected yet are inspected first (counts as an inspection). For inventory links it is only returned once the item was inspected, as the page needs the item's name. For masked links it is returned unless the item is missing from the item schema</li>
+                    </ul>
+
+                    <div class="example">
+                        <h4>Example Request:</h4>
+                        <pre>GET /link?s=76561198023809011&a=35678726741&d=4649654965632117657</pre>
+                    </div>
+
+                    <h3>POST /gen</h3>
+                    <p>Generate an inspect link for a hypothetical item. The item is checked against the item schema (paint, float range, stickers, keychains), encoded into a masked inspect link and returned together with the response <code>GET /inspect</code> would give for it.</p>
+
+                    <div class="example">
+                        <h4>Example Request:</h4>
+                        <pre>POST /gen
+{
+  "defindex": 7,
+  "paintindex": 44,
+  "paintseed": 661,
+  "float": 0.01,
+  "stattrak": true,
+  "stickers": [{ "slot": 0, "sticker_id": 76, "wear": 0 }],
+  "keychains": [{ "slot": 0, "sticker_id": 1, "pattern": 1000 }]
+}</pre>
+                    </div>
+
+                    <h3>GET /patterns/ch</h3>
+                    <p>Case Hardened or Heat Treated pattern of a seed: its tier and the blue and gold percentage of the playside and backside. A side without data is <code>null</code>. Weapons and seeds without data return 404.</p>
+
+                    <h4>Query Parameters:</h4>
+                    <ul>
+                        <li><code>weapon</code> - Weapon key or name, e.g. <code>karambit</code> or <code>AK-47</code></li>
+                        <li><code>seed</code> - Paint seed</li>
+                        <li><code>finish</code> - (optional) <code>case_hardened</code> (default) or <code>heat_treated</code></li>
+                    </ul>
+
+                    <div class="example">
+                        <h4>Example Request:</h4>
+                        <pre>GET /patterns/ch?weapon=ak47&seed=661</pre>
+                    </div>
+
+                    <h3>GET /search/patterns</h3>
+                    <p>Stored items with a notable pattern, e.g. every Karambit Case Hardened Tier 1 seen so far. The seeds come from the same pattern data as <code>pattern</code> in <code>GET /inspect</code>. Every item has its owner, float and last inspect time; the most recently inspected come first.</p>
+
+                    <h4>Query Parameters:</h4>
+                    <ul>
+                        <li><code>weapon</code> - Weapon key or name, e.g. <code>karambit</code></li>
+                        <li><code>type</code> - <code>case_hardened</code>, <code>fade</code>, <code>amber_fade</code>, <code>acid_fade</code>, <code>doppler</code> or <code>gamma_doppler</code>. Marble Fades are not searchable</li>
+                        <li><code>pattern</code> - Pattern name, e.g. <code>Tier 1</code>, or the percentage of a fade, e.g. <code>99.5</code></li>
+                        <li><code>min</code>, <code>max</code> - Fades only, instead of <code>pattern</code>: the lowest and highest percentage, e.g. <code>min=98&amp;max=100</code></li>
+                        <li><code>phase</code> - Doppler phase, required for <code>doppler</code> and <code>gamma_doppler</code></li>
+                        <li><code>page</code> - (optional) Page, starting at 1</li>
+                        <li><code>limit</code> - (optional) Items per page, default 20, maximum 100</li>
+                    </ul>
+
+                    <div class="example">
+                        <h4>Example Request:</h4>
+                        <pre>GET /search/patterns?weapon=karambit&type=case_hardened&pattern=Tier%201&page=1
+GET /search/patterns?weapon=karambit&type=fade&min=99</pre>
+                    </div>
+
                     <h3>GET /stats</h3>
                     <p>Get bot statistics and status information.</p>
 
@@ -1,5 +1,20 @@
-import { IsBoolean, IsOptional, IsString, Matches } from 'class-validator'
-import { Transform } from 'class-transformer'
+import {
+    ArrayMaxSize,
+    ArrayNotEmpty,
+    IsArray,
+    IsBoolean,
+    IsIn,
+    IsInt,
+    IsNumber,
+    IsOptional,
+    IsString,
+    IsUrl,
+    Matches,
+    Max,
+    Min,
+    ValidateNested,
+} from 'class-validator'
+import { Transform, Type } from 'class-transformer'
 
 export class InspectDto {
     @IsOptional()
@@ -38,8 +53,16 @@ export class InspectDto {
     @Transform(({ value }) => value === 'true')
     refresh?: boolean
 
+    // API key, read by ApiKeyGuard. The X-API-Key header is preferred
     @IsString({
-        message: 'Invalid password, please contact support if you need access.',
+        message: 'Invalid API key, please contact support if you need access.',
+    })
+    @IsOptional()
+    key?: string
+
+    // Deprecated name of key, still accepted by ApiKeyGuard
+    @IsString({
+        message: 'Invalid API key, please contact support if you need access.',
     })
     @IsOptional()
     password?: string
@@ -62,4 +85,270 @@ export class InspectDto {
     @IsBoolean()
     @Transform(({ value }) => value === 'true')
     lowPriority?: boolean;
+
+    @IsOptional()
+    @IsIn(['high', 'normal', 'low'], {
+        message: 'Priority must be one of high, normal or low',
+    })
+    priority?: 'high' | 'normal' | 'low';
+
+    @IsOptional()
+    // example: https://example.com/webhooks/inspect
+    @IsUrl({ protocols: ['http', 'https'], require_protocol: true }, {
+        message: 'Invalid callback URL',
+    })
+    callback?: string;
+}
+
+export const MAX_BULK_SIZE = parseInt(process.env.MAX_BULK_SIZE || '50')
+
+export class BulkInspectDto {
+    // Either inspect links or { s, a, d, m } objects, parsed one by one by ParseService
+    @IsArray()
+    @ArrayNotEmpty()
+    @ArrayMaxSize(MAX_BULK_SIZE, {
+        message: `A maximum of ${MAX_BULK_SIZE} links can be inspected at once`,
+    })
+    links: (string | { s?: string; a?: string; d?: string; m?: string })[]
+
+    @IsOptional()
+    @IsBoolean()
+    refresh?: boolean
+
+    @IsOptional()
+    @IsBoolean()
+    lowPriority?: boolean
+
+    @IsOptional()
+    @IsIn(['high', 'normal', 'low'], {
+        message: 'Priority must be one of high, normal or low',
+    })
+    priority?: 'high' | 'normal' | 'low'
+}
+
+export class EventsDto {
+    @IsOptional()
+    @IsInt()
+    @Transform(({ value }) => parseInt(value, 10))
+    defindex?: number
+
+    @IsOptional()
+    @IsInt()
+    @Transform(({ value }) => parseInt(value, 10))
+    paintindex?: number
+
+    @IsOptional()
+    @IsNumber()
+    @Transform(({ value }) => parseFloat(value))
+    minFloat?: number
+
+    @IsOptional()
+    @IsNumber()
+    @Transform(({ value }) => parseFloat(value))
+    maxFloat?: number
+
+    @IsOptional()
+    @IsString()
+    // example: Tier 1
+    pattern?: string
+}
+
+export const MAX_RANKINGS_LIMIT = 100
+
+export class RankingsDto {
+    @IsInt()
+    @Transform(({ value }) => parseInt(value, 10))
+    defindex: number
+
+    @IsInt()
+    @Transform(({ value }) => parseInt(value, 10))
+    paintindex: number
+
+    @IsOptional()
+    @IsIn(['normal', 'stattrak', 'souvenir'])
+    variant?: 'normal' | 'stattrak' | 'souvenir'
+
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Max(MAX_RANKINGS_LIMIT)
+    @Transform(({ value }) => parseInt(value, 10))
+    limit?: number
+}
+
+export class HistoryDto {
+    @IsOptional()
+    @IsString()
+    // example: 35678726741
+    @Matches(/^\d+$/, {
+        message: 'Invalid Asset ID',
+    })
+    a?: string
+
+    @IsOptional()
+    @IsString()
+    uniqueId?: string
+}
+
+export class CaseHardenedDto {
+    @IsString()
+    // example: karambit or AK-47
+    weapon: string
+
+    @IsInt()
+    @Min(0)
+    @Max(1000)
+    @Transform(({ value }) => parseInt(value, 10))
+    seed: number
+
+    @IsOptional()
+    @IsIn(['case_hardened', 'heat_treated'], {
+        message: 'Finish must be one of case_hardened or heat_treated',
+    })
+    finish?: 'case_hardened' | 'heat_treated'
+}
+
+export const MAX_SEARCH_LIMIT = 100
+
+export class PatternSearchDto {
+    @IsString()
+    // example: karambit or Karambit
+    weapon: string
+
+    // Marble Fades are left out, their table only names the seeds of a few knives
+    @IsIn(['case_hardened', 'fade', 'amber_fade', 'acid_fade', 'doppler', 'gamma_doppler'], {
+        message: 'Type must be one of case_hardened, fade, amber_fade, acid_fade, doppler or gamma_doppler',
+    })
+    type: 'case_hardened' | 'fade' | 'amber_fade' | 'acid_fade' | 'doppler' | 'gamma_doppler'
+
+    @IsOptional()
+    @IsString()
+    // example: Tier 1, or the percentage for fades, required unless min or max is given
+    pattern?: string
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(100)
+    @Transform(({ value }) => parseFloat(value))
+    // Fades only, lowest percentage
+    min?: number
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(100)
+    @Transform(({ value }) => parseFloat(value))
+    // Fades only, highest percentage
+    max?: number
+
+    @IsOptional()
+    @IsString()
+    // example: Phase 2, dopplers only
+    phase?: string
+
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Transform(({ value }) => parseInt(value, 10))
+    page?: number
+
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Max(MAX_SEARCH_LIMIT)
+    @Transform(({ value }) => parseInt(value, 10))
+    limit?: number
+}
+
+export class GenStickerDto {
+    @IsInt()
+    @Min(0)
+    @Max(5)
+    slot: number
+
+    @IsInt()
+    @Min(1)
+    sticker_id: number
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(1)
+    wear?: number
+
+    @IsOptional()
+    @IsNumber()
+    scale?: number
+
+    @IsOptional()
+    @IsNumber()
+    rotation?: number
+
+    @IsOptional()
+    @IsNumber()
+    offset_x?: number
+
+    @IsOptional()
+    @IsNumber()
+    offset_y?: number
+
+    @IsOptional()
+    @IsNumber()
+    offset_z?: number
+
+    // Keychains only, the charm's pattern
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    pattern?: number
+}
+
+export class GenDto {
+    @IsInt()
+    @Min(1)
+    defindex: number
+
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    paintindex?: number
+
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(1000)
+    paintseed?: number
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(1)
+    float?: number
+
+    @IsOptional()
+    @IsBoolean()
+    stattrak?: boolean
+
+    @IsOptional()
+    @IsBoolean()
+    souvenir?: boolean
+
+    @IsOptional()
+    @IsString()
+    customname?: string
+
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(5)
+    @ValidateNested({ each: true })
+    @Type(() => GenStickerDto)
+    stickers?: GenStickerDto[]
+
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(1)
+    @ValidateNested({ each: true })
+    @Type(() => GenStickerDto)
+    keychains?: GenStickerDto[]
 }
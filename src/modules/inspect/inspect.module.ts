@@ -5,22 +5,38 @@ import { InspectController } from './inspect.controller';
 import { ParseService } from './parse.service';
 import { Asset, AssetSchema } from 'src/schemas/asset.schema';
 import { History, HistorySchema } from 'src/schemas/history.schema';
+import { Job, JobSchema } from 'src/schemas/job.schema';
 import { FormatService } from './format.service';
 import { PricempireModule } from '../pricempire/pricempire.module';
+import { AuthModule } from '../auth/auth.module';
 import { HttpModule } from '@nestjs/axios';
 import { QueueService } from './queue.service';
 import { WorkerManagerService } from './worker/worker-manager.service';
+import { JobService } from './job.service';
+import { WebhookService } from './webhook.service';
+import { EventsService } from './events.service';
+import { MetricsService } from './metrics.service';
+import { SchemaService } from './schema.service';
+import { RankingService } from './ranking.service';
+import { HistoryService } from './history.service';
+import { GenService } from './gen.service';
+import { CaseHardenedService } from './case-hardened.service';
+import { PatternSearchService } from './pattern-search.service';
+import { HistoryClassifierService } from './history-classifier/history-classifier.service';
+import { SchemaBuilderService } from './schema-builder/schema-builder.service';
 
 @Module({
     imports: [
         MongooseModule.forFeature([
             { name: Asset.name, schema: AssetSchema },
             { name: History.name, schema: HistorySchema },
+            { name: Job.name, schema: JobSchema },
         ]),
         PricempireModule,
         HttpModule,
+        AuthModule,
     ],
-    providers: [InspectService, ParseService, FormatService, QueueService, WorkerManagerService],
+    providers: [InspectService, ParseService, FormatService, QueueService, WorkerManagerService, JobService, WebhookService, EventsService, MetricsService, SchemaService, SchemaBuilderService, RankingService, HistoryService, HistoryClassifierService, GenService, CaseHardenedService, PatternSearchService],
     controllers: [InspectController],
 })
 export class InspectModule { }
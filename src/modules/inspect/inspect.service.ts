@@ -7,14 +7,32 @@ import {
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
-import { ParseService } from './parse.service';
+import { InspectParams, ParseService } from './parse.service';
 import { Asset, AssetDocument } from 'src/schemas/asset.schema';
 import { History, HistoryDocument, HistoryType } from 'src/schemas/history.schema';
 import { FormatService } from './format.service';
-import { InspectDto } from './inspect.dto';
-import { createHash } from 'crypto';
+import { BulkInspectDto, InspectDto } from './inspect.dto';
+import { FormattedResponse } from './interfaces/schema.interface';
 import { QueueService } from './queue.service';
 import { WorkerManagerService } from './worker/worker-manager.service';
+import { JobService } from './job.service';
+import { JobDocument, JobStatus } from 'src/schemas/job.schema';
+import { WebhookPayload, WebhookService } from './webhook.service';
+import { ApiKeyDocument } from 'src/schemas/api-key.schema';
+import { capPriority } from '../auth/api-key.service';
+import { RankingService } from './ranking.service';
+import { FingerprintItem, generateUniqueId, isSameItem, isUniqueItem } from './fingerprint';
+import { HistoryClassifierService } from './history-classifier/history-classifier.service';
+import { decodePreviewDataBlock } from './preview-data-block';
+
+/**
+ * The inspection was not answered within QUEUE_TIMEOUT
+ */
+export class InspectionTimeoutException extends HttpException {
+    constructor() {
+        super('Inspection request timed out', HttpStatus.GATEWAY_TIMEOUT);
+    }
+}
 
 @Injectable()
 export class InspectService implements OnModuleInit {
@@ -40,6 +58,14 @@ export class InspectService implements OnModuleInit {
     private cached = 0;
     private failed = 0;
     private timeouts = 0;
+    private coalesced = 0;
+    private uniqueIdCollisions = 0;
+
+    // Inspections waiting on the GC, concurrent requests for the same asset share the same promise
+    private inFlight: Map<string, Promise<FormattedResponse>> = new Map();
+
+    // Background jobs waiting for a bot to take their asset
+    private dispatchListeners: Map<string, Set<() => void>> = new Map();
 
     constructor(
         private parseService: ParseService,
@@ -50,11 +76,19 @@ export class InspectService implements OnModuleInit {
         private historyModel: Model<HistoryDocument>,
         private readonly queueService: QueueService,
         private readonly workerManagerService: WorkerManagerService,
+        private readonly jobService: JobService,
+        private readonly webhookService: WebhookService,
+        private readonly rankingService: RankingService,
+        private readonly historyClassifierService: HistoryClassifierService,
     ) { }
 
     async onModuleInit() {
         this.logger.debug('Starting Inspect Module...');
 
+        this.workerManagerService.on('inspectDispatched', (assetId: string) => {
+            this.dispatchListeners.get(assetId)?.forEach(listener => listener());
+        });
+
         if (process.env.WORKER_ENABLED === 'true') {
             this.logger.log('Worker mode enabled. Bot initialization handled by Worker Manager Service.');
             this.logger.log('Each worker thread will handle up to 50 bots for optimal performance.');
@@ -67,6 +101,10 @@ export class InspectService implements OnModuleInit {
         }
     }
 
+    public getCoalescedCount(): number {
+        return this.coalesced;
+    }
+
     public stats() {
         const stats = this.workerManagerService.getStats();
 
@@ -111,13 +149,16 @@ export class InspectService implements OnModuleInit {
                 queue: {
                     current: this.inspects.size,
                     max: this.MAX_QUEUE_SIZE,
-                    priorities: priorityCounts
+                    priorities: priorityCounts,
+                    waitingForBot: stats.pendingInspections
                 },
             },
             inspections: {
                 total: metrics.success + metrics.failed + metrics.timeouts,
                 success: metrics.success,
                 cached: metrics.cached,
+                coalesced: this.coalesced,
+                uniqueIdCollisions: this.uniqueIdCollisions,
                 failed: metrics.failed,
                 timeouts: metrics.timeouts,
                 activeCount: stats.activeInspections,
@@ -141,10 +182,53 @@ export class InspectService implements OnModuleInit {
         };
     }
 
-    public async inspectItem(query: InspectDto) {
+    /**
+     * Canonical links for an inspect link or s/a/d/m. Inventory items always get their inventory URL and
+     * the market URL once they were inspected. A listing can only be found through the market page of
+     * its item, so listings that were not inspected yet are inspected first.
+     */
+    public async getLinks(query: InspectDto, apiKey?: ApiKeyDocument) {
+        const params = this.parseService.parse(query);
+        if (params.masked) {
+            const decoded = await this.decodeOffline(params.masked);
+            return this.parseService.buildLinks(params, decoded.iteminfo?.market_hash_name);
+        }
+
+        const isListing = !params.s || params.s === '0';
+        const item = isListing
+            ? await this.inspectItem({ ...query, reply: undefined, callback: undefined }, apiKey)
+            : await this.checkCache(params.a, params.d);
+
+        return this.parseService.buildLinks(params, item?.iteminfo?.market_hash_name);
+    }
+
+    /**
+     * Format the item embedded in a masked inspect link without asking a bot
+     */
+    public async decodeOffline(masked: string): Promise<FormattedResponse> {
+        const item = decodePreviewDataBlock(masked);
+
+        // Generated items carry no item ID
+        const response = await this.formatService.formatResponse(
+            this.formatService.mapInspectResponse({ ...item, itemid: item.itemid ?? '0' }),
+        );
+        response.iteminfo.decoded_offline = true;
+        return response;
+    }
+
+    public async inspectItem(query: InspectDto, apiKey?: ApiKeyDocument) {
         this.currentRequests++;
 
-        const { s, a, d, m } = this.parseService.parse(query);
+        const params = this.parseService.parse(query);
+        if (params.masked) {
+            return this.decodeOffline(params.masked);
+        }
+
+        if (query.callback) {
+            await this.webhookService.validateCallback(query.callback);
+        }
+
+        const { s, a, d, m } = params;
 
         // First check if we have cached data before checking bot availability
         if (!query.refresh) {
@@ -163,24 +247,132 @@ export class InspectService implements OnModuleInit {
             );
         }
 
-        // If reply is false, acknowledge receipt and process in background
-        if (query.reply === false) {
+        // If reply is false or a callback is given, acknowledge receipt and process in background
+        if (query.reply === false || query.callback) {
+            const priority = this.resolvePriority(query, apiKey);
+            const job = await this.jobService.create({ s, a, d, m }, priority, query.callback);
+
             // Start the inspection process in the background
-            this.processInspectionInBackground(s, a, d, m, query.lowPriority);
+            this.processInspectionInBackground(job, s, a, d, m, priority);
 
             // Return immediate acknowledgment
             return {
                 success: true,
                 message: 'Inspection request received and being processed in background',
-                assetId: a
+                assetId: a,
+                jobId: job.id
             };
         }
 
         // Normal flow - wait for inspection to complete
+        return this.requestInspection(s, a, d, m, this.resolvePriority(query, apiKey));
+    }
+
+    public async inspectBulk(body: BulkInspectDto, apiKey?: ApiKeyDocument) {
+        const priority = this.resolvePriority(body, apiKey);
+        const results: Record<string, FormattedResponse> = {};
+        const errors: Record<string, string> = {};
+
+        await Promise.all(body.links.map(async (link, index) => {
+            let params: InspectParams;
+            try {
+                params = this.parseService.parse(typeof link === 'string' ? { url: link } : link);
+            } catch (error) {
+                // Unparseable entries have no asset id, fall back to the raw link or its position
+                const key = typeof link === 'string' ? link : link?.a ?? `#${index}`;
+                errors[key] = error.message;
+                return;
+            }
+
+            if (params.masked) {
+                try {
+                    results[params.masked] = await this.decodeOffline(params.masked);
+                } catch (error) {
+                    errors[params.masked] = error.message;
+                }
+                return;
+            }
+
+            const { s, a, d, m } = params;
+
+            try {
+                if (!body.refresh) {
+                    const cachedAsset = await this.checkCache(a, d);
+                    if (cachedAsset) {
+                        this.cached++;
+                        this.workerManagerService.incrementCached();
+                        results[a] = cachedAsset;
+                        return;
+                    }
+                }
+
+                if (this.queueService.isFull()) {
+                    throw new HttpException(
+                        `Queue is full (${this.queueService.size()}/${this.MAX_QUEUE_SIZE}), please try again later`,
+                        HttpStatus.TOO_MANY_REQUESTS
+                    );
+                }
+
+                results[a] = await this.requestInspection(s, a, d, m, priority);
+            } catch (error) {
+                errors[a] = error.message;
+            }
+        }));
+
+        return { results, errors };
+    }
+
+    /**
+     * Queue priority for a request, limited to what the caller's API key allows.
+     * Callers without a key can never go above normal priority
+     */
+    private resolvePriority(
+        query: { priority?: 'high' | 'normal' | 'low'; lowPriority?: boolean },
+        apiKey?: ApiKeyDocument
+    ): 'high' | 'normal' | 'low' {
+        const priority = query.priority ?? (query.lowPriority ? 'low' : 'normal');
+        return capPriority(priority, apiKey?.maxPriority ?? 'normal');
+    }
+
+    /**
+     * Queue an inspection, dispatch it to the worker manager and resolve with the formatted result.
+     * Callers asking for an asset that is already being inspected join the pending inspection
+     */
+    private requestInspection(
+        s: string,
+        a: string,
+        d: string,
+        m: string,
+        priority: 'high' | 'normal' | 'low'
+    ): Promise<FormattedResponse> {
+        const pending = this.inFlight.get(a);
+        if (pending) {
+            this.coalesced++;
+            return pending;
+        }
+
+        const inspection = this.dispatchInspection(s, a, d, m, priority)
+            .finally(() => this.inFlight.delete(a));
+
+        this.inFlight.set(a, inspection);
+        return inspection;
+    }
+
+    private dispatchInspection(
+        s: string,
+        a: string,
+        d: string,
+        m: string,
+        priority: 'high' | 'normal' | 'low'
+    ): Promise<FormattedResponse> {
         return new Promise((resolve, reject) => {
+            // Tells the worker manager to drop the request, including pending retries, once we stop waiting
+            const abort = new AbortController();
+
             const timeoutId = setTimeout(() => {
                 this.timeouts++;
-                reject(new HttpException('Inspection request timed out', HttpStatus.GATEWAY_TIMEOUT));
+                abort.abort();
+                reject(new InspectionTimeoutException());
             }, this.QUEUE_TIMEOUT);
 
             // Add to queue before making the request
@@ -192,11 +384,11 @@ export class InspectService implements OnModuleInit {
                 timeoutId,
                 retryCount: 0,
                 inspectUrl: { s, a, d, m },
-                priority: query.lowPriority ? 'low' : 'normal'
+                priority
             });
 
             // Try using the worker manager
-            this.workerManagerService.inspectItem(s, a, d, m, query.lowPriority ? 'low' : 'normal')
+            this.workerManagerService.inspectItem(s, a, d, m, priority, abort.signal)
                 .then(async (response) => {
                     clearTimeout(timeoutId);
                     this.success++;
@@ -211,8 +403,8 @@ export class InspectService implements OnModuleInit {
                         this.logger.debug(`Successfully processed and removed item ${a} from queue`);
                         resolve(formattedResponse);
                     } catch (error) {
-                        console.log(response);
                         this.logger.error(`Error handling inspect result: ${error.message}`);
+                        this.logger.debug(`Inspect result of item ${a}: ${JSON.stringify(response)}`);
                         this.failed++;
                         // Ensure we remove the item from queue on error too
                         this.queueService.remove(a);
@@ -220,6 +412,12 @@ export class InspectService implements OnModuleInit {
                     }
                 })
                 .catch(error => {
+                    if (abort.signal.aborted) {
+                        // Already answered as timed out
+                        this.queueService.remove(a);
+                        return;
+                    }
+
                     this.logger.error(`Worker inspection error for asset ${a}: ${error.message}`);
                     this.failed++;
                     clearTimeout(timeoutId);
@@ -233,69 +431,54 @@ export class InspectService implements OnModuleInit {
     }
 
     /**
-     * Process an inspection request in the background without waiting for the result
+     * Process an inspection request in the background, tracking its progress in the job record
+     * and notifying the job's callback URL once it settles. The job stays queued until a bot takes it
      */
-    private async processInspectionInBackground(s: string, a: string, d: string, m: string, lowPriority?: boolean): Promise<void> {
-        try {
-            // Add to queue with dummy resolve/reject handlers
-            this.queueService.add(a, {
-                ms: m !== '0' && m ? m : s,
-                d,
-                resolve: () => {
-                    this.logger.debug(`Background inspection for item ${a} completed successfully`);
-                    this.success++;
-                },
-                reject: (error) => {
-                    this.logger.error(`Background inspection for item ${a} failed: ${error.message}`);
-                    this.failed++;
-                },
-                timeoutId: setTimeout(() => {
-                    this.logger.warn(`Background inspection for item ${a} timed out`);
-                    this.timeouts++;
-                    this.queueService.remove(a);
-                }, this.QUEUE_TIMEOUT),
-                retryCount: 0,
-                inspectUrl: { s, a, d, m },
-                priority: lowPriority ? 'low' : 'normal'
-            });
+    private async processInspectionInBackground(
+        job: JobDocument,
+        s: string,
+        a: string,
+        d: string,
+        m: string,
+        priority: 'high' | 'normal' | 'low'
+    ): Promise<void> {
+        // Every dispatch, including retries with another bot, is an attempt
+        let running = Promise.resolve();
+        const onDispatched = () => {
+            running = running.then(() => this.jobService.markRunning(job.id));
+        };
+        const listeners = this.dispatchListeners.get(a) ?? new Set();
+        listeners.add(onDispatched);
+        this.dispatchListeners.set(a, listeners);
 
-            // Process with the worker manager
-            this.workerManagerService.inspectItem(s, a, d, m, lowPriority ? 'low' : 'normal')
-                .then(async (response) => {
-                    try {
-                        await this.handleInspectResult(response, {
-                            ms: m !== '0' && m ? m : s,
-                            d,
-                        });
-                        this.logger.debug(`Successfully processed background inspection for item ${a}`);
-                    } catch (error) {
-                        this.logger.error(`Error handling background inspection result: ${error.message}`);
-                    } finally {
-                        this.queueService.remove(a);
-                    }
-                })
-                .catch(error => {
-                    this.logger.error(`Background inspection error for asset ${a}: ${error.message}`);
-                    this.queueService.remove(a);
-                });
+        let payload: WebhookPayload;
+        try {
+            const formattedResponse = await this.requestInspection(s, a, d, m, priority);
+            await running;
+            await this.jobService.markSucceeded(job.id, formattedResponse);
+            this.logger.debug(`Successfully processed background inspection for item ${a}`);
+            payload = { jobId: job.id, assetId: a, status: JobStatus.SUCCEEDED, result: formattedResponse };
         } catch (error) {
-            this.logger.error(`Failed to start background inspection for asset ${a}: ${error.message}`);
+            this.logger.error(`Background inspection error for asset ${a}: ${error.message}`);
+            const status = error instanceof InspectionTimeoutException ? JobStatus.TIMED_OUT : JobStatus.FAILED;
+            await running;
+            await this.jobService.markFailed(job.id, status, error.message);
+            payload = { jobId: job.id, assetId: a, status, error: error.message };
+        } finally {
+            listeners.delete(onDispatched);
+            if (listeners.size === 0 && this.dispatchListeners.get(a) === listeners) {
+                this.dispatchListeners.delete(a);
+            }
+        }
+
+        if (job.callback) {
+            await this.webhookService.deliver(job.callback, payload);
         }
     }
 
     private async handleInspectResult(response: any, inspectData: any) {
         try {
-            const uniqueId = this.generateUniqueId({
-                paintSeed: response.paintseed,
-                paintIndex: response.paintindex === null ? 0 : response.paintindex,
-                paintWear: response.paintwear === null ? 0 : response.paintwear,
-                defIndex: response.defindex,
-                origin: response.origin,
-                rarity: response.rarity,
-                questId: response.questid,
-                quality: response.quality,
-                dropReason: response.dropreason
-            });
+            const uniqueId = await this.resolveUniqueId(this.formatService.mapInspectResponse(response));
             // Only save history if the paintseed is present and the paintindex is not 0
             if (
                 response.paintseed &&
@@ -308,8 +491,8 @@ export class InspectService implements OnModuleInit {
             const asset = await this.saveAsset(response, inspectData, uniqueId);
 
             if (!asset) {
-                console.log(response);
                 this.logger.error(`No asset found for item ${response.itemid}`);
+                this.logger.debug(`Inspect result of item ${response.itemid}: ${JSON.stringify(response)}`);
                 throw new Error(`No asset found for item ${response.itemid}`);
             }
 
@@ -364,97 +547,47 @@ export class InspectService implements OnModuleInit {
                 keychains: response.keychains,
                 prevStickers: history?.stickers,
                 prevKeychains: history?.keychains,
-                type: this.getHistoryType(response, history, inspectData),
+                customName: response.customname || undefined,
+                prevCustomName: history?.customName || undefined,
+                type: await this.classifyHistory(response, history, inspectData),
             });
         }
     }
 
-    private getHistoryType(response: any, history: any, inspectData: any): HistoryType {
-        if (!history) {
-            if (response.origin === 8) return HistoryType.TRADED_UP;
-            if (response.origin === 4) return HistoryType.DROPPED;
-            if (response.origin === 1) return HistoryType.PURCHASED_INGAME;
-            if (response.origin === 2) return HistoryType.UNBOXED;
-            if (response.origin === 3) return HistoryType.CRAFTED;
-            return HistoryType.UNKNOWN;
-        }
-
-        if (history?.owner !== inspectData?.ms) {
-            if (history?.owner?.toString().startsWith('7656')) {
-                return HistoryType.TRADE;
-            }
-            if (history?.owner && !history?.owner?.toString().startsWith('7656')) {
-                return HistoryType.MARKET_BUY;
-            }
-        }
-
-        if (history?.owner && history.owner.toString().startsWith('7656') && !inspectData?.ms?.toString().startsWith('7656')) {
-            return HistoryType.MARKET_LISTING;
-        }
-
-        if (history.owner === inspectData.ms) {
-            const stickerChanges = this.detectStickerChanges(response.stickers, history.stickers);
-            if (stickerChanges) return stickerChanges;
-
-            const keychainChanges = this.detectKeychainChanges(response.keychains, history.keychains);
-            if (keychainChanges) return keychainChanges;
-        }
-
-        return HistoryType.UNKNOWN;
-    }
-
-    private detectStickerChanges(currentStickers: any[], previousStickers: any[]): HistoryType | null {
-        if (!currentStickers || !previousStickers) return null;
-
-        if (currentStickers.length > previousStickers.length) {
-            return HistoryType.STICKER_APPLY;
-        }
-
-        if (currentStickers.length < previousStickers.length) {
-            return HistoryType.STICKER_REMOVE;
-        }
-
-        for (const current of currentStickers) {
-            const previous = previousStickers.find(
-                prev => prev.offset_x === current.offset_x &&
-                    prev.offset_y === current.offset_y &&
-                    prev.offset_z === current.offset_z &&
-                    prev.rotation === current.rotation &&
-                    prev.slot === current.slot &&
-                    prev.sticker_id === current.sticker_id
-            );
-
-            if (!previous) {
-                if (currentStickers.length === previousStickers.length) {
-                    return HistoryType.STICKER_CHANGE;
-                }
-                return HistoryType.STICKER_REMOVE;
-            }
-
-            if (previous && current.wear !== previous.wear) {
-                if (current.wear > previous.wear) {
-                    return HistoryType.STICKER_SCRAPE;
-                }
-                return HistoryType.STICKER_CHANGE;
-            }
-        }
-
-        return null;
-    }
-
-    private detectKeychainChanges(currentKeychains: any[], previousKeychains: any[]): HistoryType | null {
-        if (!currentKeychains || !previousKeychains) return null;
+    private async classifyHistory(response: any, history: any, inspectData: any): Promise<HistoryType> {
+        // history is the previous sighting of the item, its owner is stored as ms
+        const previousEvent = history
+            ? await this.historyModel.findOne({ assetId: history.assetId }).sort({ createdAt: -1 }).lean().exec()
+            : null;
 
-        if (currentKeychains.length === 0 && previousKeychains.length > 0) {
-            return HistoryType.KEYCHAIN_REMOVED;
-        }
-        if (currentKeychains.length > 0 && previousKeychains.length === 0) {
-            return HistoryType.KEYCHAIN_ADDED;
-        }
-        if (JSON.stringify(currentKeychains) !== JSON.stringify(previousKeychains)) {
-            return HistoryType.KEYCHAIN_CHANGED;
-        }
-        return null;
+        return this.historyClassifierService.classify({
+            current: {
+                assetId: parseInt(response.itemid),
+                owner: inspectData.ms?.toString(),
+                origin: response.origin,
+                inventory: response.inventory,
+                customName: response.customname,
+                stickers: response.stickers,
+                keychains: response.keychains,
+                seenAt: new Date(),
+            },
+            previous: history ? {
+                assetId: history.assetId,
+                owner: history.ms?.toString(),
+                origin: history.origin,
+                inventory: history.inventory,
+                customName: history.customName,
+                stickers: history.stickers,
+                keychains: history.keychains,
+                seenAt: history.updatedAt,
+            } : undefined,
+            previousEvent: previousEvent ? {
+                type: previousEvent.type,
+                owner: previousEvent.owner?.toString(),
+                prevOwner: previousEvent.prevOwner?.toString(),
+                createdAt: previousEvent.createdAt,
+            } : undefined,
+        });
     }
 
     private async saveAsset(response: any, inspectData: any, uniqueId: string) {
@@ -462,25 +595,7 @@ export class InspectService implements OnModuleInit {
             uniqueId,
             ms: inspectData.ms,
             d: inspectData.d,
-            assetId: parseInt(response.itemid),
-            paintSeed: response.paintseed === null ? 0 : response.paintseed,
-            paintIndex: response.paintindex === null ? 0 : response.paintindex,
-            paintWear: response.paintwear === null ? 0 : response.paintwear,
-            customName: response.customname,
-            defIndex: response.defindex,
-            origin: response.origin,
-            rarity: response.rarity,
-            questId: response.questid,
-            stickers: response.stickers,
-            quality: response.quality,
-            keychains: response.keychains,
-            killeaterScoreType: response.killeaterscoretype,
-            killeaterValue: response.killeatervalue,
-            inventory: response.inventory,
-            petIndex: response.petindex,
-            musicIndex: response.musicindex,
-            entIndex: response.entindex,
-            dropReason: response.dropreason,
+            ...this.formatService.mapInspectResponse(response),
         };
 
         // Upsert by uniqueId
@@ -489,28 +604,48 @@ export class InspectService implements OnModuleInit {
             { $set: assetData },
             { upsert: true, new: true }
         ).exec();
+        this.rankingService.invalidate(assetData);
 
         return await this.assetModel.findOne({ assetId: parseInt(response.itemid) }).exec();
     }
 
-    private generateUniqueId(item: {
-        paintSeed?: number;
-        paintIndex?: number;
-        paintWear?: number;
-        defIndex?: number;
-        origin?: number;
-        rarity?: number;
-        questId?: number;
-        quality?: number;
-        dropReason?: number;
-    }): string {
-        const values = [
-            item.paintSeed || 0,
-            item.paintIndex || 0,
-            item.paintWear || 0,
-            item.defIndex || 0,
-        ];
-        const stringToHash = values.join('-');
-        return createHash('sha1').update(stringToHash).digest('hex').substring(0, 8);
+    /**
+     * Fingerprint of the item. When a different item already holds the fingerprint, the item keeps the salted
+     * ID it was stored under before, or takes the first free one, so a re-keyed item still survives trades
+     */
+    private async resolveUniqueId(item: FingerprintItem): Promise<string> {
+        const uniqueId = generateUniqueId(item);
+        const existing = await this.assetModel.findOne({ uniqueId }).lean().exec();
+
+        if (!existing || isSameItem(existing, item)) {
+            return uniqueId;
+        }
+
+        // Earlier sightings carry the previous asset ID, items without a float cannot be recognized by anything else
+        if (isUniqueItem(item)) {
+            const candidates = await this.assetModel.find({
+                defIndex: item.defIndex,
+                paintIndex: item.paintIndex,
+                paintSeed: item.paintSeed,
+                paintWear: item.paintWear,
+                uniqueId: { $ne: uniqueId },
+            }).lean().exec();
+
+            const previous = candidates.find(candidate => isSameItem(candidate, item));
+            if (previous) {
+                return previous.uniqueId;
+            }
+        }
+
+        this.uniqueIdCollisions++;
+        this.logger.warn(`uniqueId ${uniqueId} of asset ${item.assetId} collides with asset ${existing.assetId}`);
+
+        for (let salt = 1; ; salt++) {
+            const salted = generateUniqueId(item, salt);
+            const holder = await this.assetModel.findOne({ uniqueId: salted }).lean().exec();
+            if (!holder || isSameItem(holder, item)) {
+                return salted;
+            }
+        }
     }
 }
@@ -8,6 +8,20 @@ export interface Paint {
     image: string;
     min: number;
     max: number;
+    rarity?: number;
+    collection?: string;
+}
+
+export interface Rarity {
+    name: string;
+    weapon_name?: string;
+    character_name?: string;
+    color?: string;
+}
+
+export interface Collection {
+    name: string;
+    items: Array<{ defindex: number; paintindex: number }>;
 }
 
 export interface Schema {
@@ -16,6 +30,8 @@ export interface Schema {
     agents: Record<string, { market_hash_name: string; image: string }>;
     graffiti: Record<string, { market_hash_name: string }>;
     keychains: Record<string, { market_hash_name: string }>;
+    rarities?: Record<string, Rarity>;
+    collections?: Record<string, Collection>;
 }
 
 export interface Metadata {
@@ -23,7 +39,7 @@ export interface Metadata {
     low_rank?: number;
     high_rank?: number;
     totalCount?: number;
-    rank?: any; // Rankings functionality removed - can be implemented with MongoDB aggregation later
+    rank?: number;
     paintIndex?: number;
     defIndex: number;
     quality: number;
@@ -47,6 +63,22 @@ export interface StickerKeychain {
     pattern?: number | null;
 }
 
+export interface PatternInfo {
+    type: 'case_hardened' | 'heat_treated' | 'fade' | 'amber_fade' | 'acid_fade' | 'marble_fade' | 'doppler' | 'gamma_doppler';
+    // Case Hardened tier, or the pattern name for Marble Fades and Dopplers
+    tier?: string;
+    // Fade percentage and its rank among all seeds
+    percentage?: number;
+    fade_rank?: number;
+    // Case Hardened and Heat Treated, playside and backside
+    blue_percentage?: number;
+    gold_percentage?: number;
+    backside_blue_percentage?: number;
+    backside_gold_percentage?: number;
+    // Dataset the pattern was looked up in
+    source: string;
+}
+
 export interface FormattedResponse {
     iteminfo: {
         asset_id: number;
@@ -74,5 +106,7 @@ export interface FormattedResponse {
         max?: number;
         phase?: string;
         pattern?: string;
+        pattern_info?: PatternInfo;
+        decoded_offline?: boolean;
     };
 } 
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { isValidObjectId, Model } from 'mongoose';
+import { Job, JobDocument, JobStatus, WebhookDelivery } from 'src/schemas/job.schema';
+import { FormattedResponse } from './interfaces/schema.interface';
+
+@Injectable()
+export class JobService {
+    private readonly logger = new Logger(JobService.name);
+
+    constructor(
+        @InjectModel(Job.name)
+        private jobModel: Model<JobDocument>,
+    ) { }
+
+    public async create(
+        inspectUrl: { s: string; a: string; d: string; m: string },
+        priority: 'high' | 'normal' | 'low',
+        callback?: string,
+    ): Promise<JobDocument> {
+        return this.jobModel.create({
+            assetId: parseInt(inspectUrl.a, 10),
+            s: inspectUrl.s,
+            m: inspectUrl.m,
+            d: inspectUrl.d,
+            status: JobStatus.QUEUED,
+            priority,
+            callback,
+        });
+    }
+
+    /**
+     * A bot took the job, startedAt keeps the first attempt
+     */
+    public async markRunning(jobId: string): Promise<void> {
+        await this.update(jobId, {
+            $set: { status: JobStatus.RUNNING },
+            $min: { startedAt: new Date() },
+            $inc: { attempts: 1 },
+        });
+    }
+
+    public async markSucceeded(jobId: string, result: FormattedResponse): Promise<void> {
+        await this.update(jobId, {
+            $set: { status: JobStatus.SUCCEEDED, result, finishedAt: new Date() },
+        });
+    }
+
+    public async markFailed(jobId: string, status: JobStatus.FAILED | JobStatus.TIMED_OUT, error?: string): Promise<void> {
+        await this.update(jobId, {
+            $set: {
+                status,
+                error: error || 'Inspection failed',
+                finishedAt: new Date(),
+            },
+        });
+    }
+
+    public async recordDelivery(jobId: string, delivery: WebhookDelivery): Promise<void> {
+        await this.update(jobId, {
+            $push: { deliveries: delivery },
+        });
+    }
+
+    public async get(jobId: string) {
+        if (!isValidObjectId(jobId)) {
+            throw new HttpException('Invalid job id', HttpStatus.BAD_REQUEST);
+        }
+
+        const job = await this.jobModel.findById(jobId).exec();
+        if (!job) {
+            throw new HttpException('Job not found', HttpStatus.NOT_FOUND);
+        }
+
+        return {
+            id: job.id,
+            assetId: job.assetId,
+            status: job.status,
+            priority: job.priority,
+            attempts: job.attempts,
+            error: job.error,
+            createdAt: job.createdAt,
+            startedAt: job.startedAt,
+            finishedAt: job.finishedAt,
+            result: job.result,
+            callback: job.callback,
+            deliveries: job.deliveries,
+        };
+    }
+
+    private async update(jobId: string, update: Record<string, any>): Promise<void> {
+        try {
+            await this.jobModel.updateOne({ _id: jobId }, update).exec();
+        } catch (error) {
+            // A failed status write must never break the inspection itself
+            this.logger.error(`Failed to update job ${jobId}: ${error.message}`);
+        }
+    }
+}
@@ -0,0 +1,141 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { InspectService } from './inspect.service';
+import { QueueService } from './queue.service';
+import { WorkerManagerService } from './worker/worker-manager.service';
+
+const BOT_STATES = ['ready', 'busy', 'cooldown', 'error', 'disconnected', 'reconnecting'] as const;
+const PRIORITIES = ['high', 'normal', 'low'] as const;
+
+@Injectable()
+export class MetricsService implements OnModuleInit {
+    private readonly registry = new Registry();
+    private inspectionDuration: Histogram<'result'>;
+
+    constructor(
+        private readonly inspectService: InspectService,
+        private readonly queueService: QueueService,
+        private readonly workerManagerService: WorkerManagerService,
+    ) { }
+
+    onModuleInit() {
+        collectDefaultMetrics({ register: this.registry });
+
+        this.inspectionDuration = new Histogram({
+            name: 'inspect_duration_seconds',
+            help: 'Time from dispatching an inspection to a bot until the GC answered',
+            labelNames: ['result'],
+            buckets: [0.1, 0.25, 0.5, 1, 2, 3, 5, 10, 20],
+            registers: [this.registry],
+        });
+
+        this.workerManagerService.on('inspectionTime', (duration: number, success: boolean) => {
+            this.inspectionDuration.observe({ result: success ? 'success' : 'failure' }, duration / 1000);
+        });
+
+        this.registerCounters();
+        this.registerGauges();
+    }
+
+    public get contentType(): string {
+        return this.registry.contentType;
+    }
+
+    public render(): Promise<string> {
+        return this.registry.metrics();
+    }
+
+    /**
+     * The services keep their own running totals, the counters mirror them on every scrape
+     */
+    private registerCounters() {
+        const metrics = () => this.workerManagerService.getStats().metrics;
+
+        const counters: Array<[string, string, () => number]> = [
+            ['inspect_success_total', 'Inspections answered by the GC', () => metrics().success],
+            ['inspect_cached_total', 'Inspections answered from the database', () => metrics().cached],
+            ['inspect_failed_total', 'Inspections that failed', () => metrics().failed],
+            ['inspect_timeouts_total', 'Inspections that timed out', () => metrics().timeouts],
+            ['inspect_retries_total', 'Inspections retried with another bot', () => metrics().retriedInspections],
+            ['inspect_success_after_retry_total', 'Inspections that succeeded after a retry', () => metrics().successAfterRetry],
+            ['inspect_coalesced_total', 'Requests that joined an inspection already in flight', () => this.inspectService.getCoalescedCount()],
+        ];
+
+        for (const [name, help, value] of counters) {
+            new Counter({
+                name,
+                help,
+                registers: [this.registry],
+                collect() {
+                    this.reset();
+                    this.inc(value() || 0);
+                },
+            });
+        }
+    }
+
+    private registerGauges() {
+        const workerManagerService = this.workerManagerService;
+        const queueService = this.queueService;
+
+        new Gauge({
+            name: 'inspect_bots',
+            help: 'Bots per worker and state',
+            labelNames: ['worker', 'state'],
+            registers: [this.registry],
+            collect() {
+                this.reset();
+                for (const { id, stats } of workerManagerService.getWorkerStats()) {
+                    for (const state of BOT_STATES) {
+                        this.set({ worker: id.toString(), state }, stats[`${state}Bots`] || 0);
+                    }
+                }
+            },
+        });
+
+        new Gauge({
+            name: 'inspect_queue_depth',
+            help: 'Queued inspections per priority',
+            labelNames: ['priority'],
+            registers: [this.registry],
+            collect() {
+                const depth = { high: 0, normal: 0, low: 0 };
+                queueService.getQueueMetrics().items.forEach(item => depth[item.priority]++);
+                for (const priority of PRIORITIES) {
+                    this.set({ priority }, depth[priority]);
+                }
+            },
+        });
+
+        new Gauge({
+            name: 'inspect_waiting_for_bot',
+            help: 'Inspections waiting for a ready bot per priority',
+            labelNames: ['priority'],
+            registers: [this.registry],
+            collect() {
+                const pending = workerManagerService.getStats().pendingInspections;
+                for (const priority of PRIORITIES) {
+                    this.set({ priority }, pending[priority]);
+                }
+            },
+        });
+
+        new Gauge({
+            name: 'inspect_throttled_accounts',
+            help: 'Bot accounts waiting out a login throttle',
+            registers: [this.registry],
+            collect() {
+                this.set(workerManagerService.getStats().throttledAccounts);
+            },
+        });
+
+        new Gauge({
+            name: 'inspect_failed_accounts',
+            help: 'Bot accounts that failed permanently',
+            registers: [this.registry],
+            collect() {
+                this.set(workerManagerService.getStats().failedAccounts);
+            },
+        });
+    }
+}
@@ -1,4 +1,17 @@
 import { HttpException, Injectable } from '@nestjs/common'
+import { isPreviewDataBlock } from './preview-data-block'
+
+// The app ID placeholder Steam puts in every inspect link
+const INSPECT_LINK_PREFIX = 'steam://rungame/730/76561202255233023/+csgo_econ_action_preview%20'
+
+export interface InspectParams {
+    s: string
+    a: string
+    d: string
+    m: string
+    // Hex of a masked inspect link, which carries the item itself instead of S/M, A and D
+    masked?: string
+}
 
 @Injectable()
 export class ParseService {
@@ -8,17 +21,19 @@ export class ParseService {
         d?: string
         m?: string
         url?: string
-    }) {
+    }): InspectParams {
         if (query.url) {
-            const params = this.parseLink(query.url)
-            if (!params) {
-                throw new HttpException('Invalid Inspect URL', 400)
-            }
-            return params
+            return this.parseLink(query.url, query.d)
         }
 
-        if (!('a' in query && 'd' in query && ('s' in query || 'm' in query))) {
-            throw new HttpException('Invalid query', 400)
+        if (!query.a) {
+            throw new HttpException('Missing a (asset ID), or pass the inspect link as url', 400)
+        }
+        if (!query.d) {
+            throw new HttpException('Missing d, or pass the inspect link as url', 400)
+        }
+        if (!query.s && !query.m) {
+            throw new HttpException('Missing s (owner Steam ID) or m (market listing ID), or pass the inspect link as url', 400)
         }
 
         return {
@@ -28,41 +43,139 @@ export class ParseService {
             m: query.m,
         }
     }
-    private parseLink(link: string) {
-        try {
-            link = decodeURI(link)
-        } catch (e) {
-            // Catch URI Malformed exceptions
-            return
+
+    /**
+     * Canonical steam:// link, plus the Steam Community page the item can be found on
+     */
+    public buildLinks(params: InspectParams, marketHashName?: string) {
+        if (params.masked) {
+            return {
+                link: `${INSPECT_LINK_PREFIX}${params.masked}`,
+                masked: true,
+                market_url: marketHashName
+                    ? `https://steamcommunity.com/market/listings/730/${encodeURIComponent(marketHashName)}`
+                    : undefined,
+            }
+        }
+
+        const owner = params.s && params.s !== '0' ? `S${params.s}` : `M${params.m}`
+        const isListing = !params.s || params.s === '0'
+
+        return {
+            s: params.s,
+            a: params.a,
+            d: params.d,
+            m: params.m,
+            link: `${INSPECT_LINK_PREFIX}${owner}A${params.a}D${params.d}`,
+            inventory_url: isListing
+                ? undefined
+                : `https://steamcommunity.com/profiles/${params.s}/inventory/#730_2_${params.a}`,
+            market_url: marketHashName
+                ? `https://steamcommunity.com/market/listings/730/${encodeURIComponent(marketHashName)}`
+                : undefined,
+        }
+    }
+
+    /**
+     * Bring the variants users paste into the form of a steam:// inspect link:
+     * market pages with an inspectlink parameter, %20, + or spaces as separator, lowercase letters, whitespace
+     */
+    public normalizeLink(link: string): string | undefined {
+        link = link.trim()
+
+        const inspectLink = /[?&]inspectlink=([^&#]+)/i.exec(link)
+        if (inspectLink) {
+            link = inspectLink[1]
+        }
+
+        // Links taken from a page's query string are often encoded twice
+        for (let i = 0; i < 3 && /%[0-9a-f]{2}/i.test(link); i++) {
+            try {
+                link = decodeURIComponent(link)
+            } catch (e) {
+                // Catch URI Malformed exceptions
+                return
+            }
+        }
+
+        return link
+            .trim()
+            .replace(/csgo_econ_action_preview[\s+]*/i, 'csgo_econ_action_preview ')
+            .replace(/\/[\s+]*csgo_econ_action_preview/i, '/+csgo_econ_action_preview')
+            .replace(/ ([sm]\d+a\d+d\d+|[0-9a-f]+)$/i, (_, params: string) => ` ${params.toUpperCase()}`)
+    }
+
+    private parseLink(url: string, d?: string): InspectParams {
+        const link = this.normalizeLink(url)
+        if (!link) {
+            throw new HttpException('Invalid Inspect URL: it is not correctly URL encoded', 400)
         }
 
+        // A full steam:// link, or only its parameters as shortened by CSFloat and Buff
         const groups =
-            /^steam:\/\/rungame\/730\/\d+\/[+ ]csgo_econ_action_preview ([SM])(\d+)A(\d+)D(\d+)$/.exec(
+            /^(?:steam:\/\/rungame\/730\/\d+\/\+)?(?:csgo_econ_action_preview )?([SM])(\d+)A(\d+)D(\d+)$/i.exec(
                 link,
             )
 
-        if (!groups) {
-            return
+        if (groups) {
+            const owner = groups[2],
+                a = groups[3]
+
+            return groups[1].toUpperCase() === 'S'
+                ? { s: owner, m: '0', a, d: groups[4] }
+                : { s: '0', m: owner, a, d: groups[4] }
         }
 
-        let s, m
+        const masked =
+            /^(?:steam:\/\/rungame\/730\/\d+\/\+)?(?:csgo_econ_action_preview )?([0-9A-F]+)$/i.exec(link)
+
+        if (masked && isPreviewDataBlock(masked[1])) {
+            return { s: '0', m: '0', a: '0', d: '0', masked: masked[1].toUpperCase() }
+        }
 
-        const a = groups[3],
-            d = groups[4]
+        if (/^steam:\/\/rungame\/(?!730\/)/i.test(link)) {
+            throw new HttpException('Invalid Inspect URL: it is not a CS2 (app 730) inspect link', 400)
+        }
 
-        if (groups[1] === 'S') {
-            s = groups[2]
-            m = '0'
-        } else if (groups[1] === 'M') {
-            m = groups[2]
-            s = '0'
+        if (/csgo_econ_action_preview/i.test(link)) {
+            throw new HttpException(
+                'Invalid Inspect URL: expected S<steam id> or M<listing id>, followed by A<asset id> and D<number>',
+                400,
+            )
         }
 
-        return {
-            s,
-            m,
-            a,
-            d,
+        if (/steamcommunity\.com\/market\/listings\//i.test(link)) {
+            throw new HttpException(
+                'Invalid Inspect URL: market listing pages do not contain the inspect link, use the "Inspect in Game" link of a listing',
+                400,
+            )
         }
+
+        const inventory = /steamcommunity\.com\/profiles\/(7656\d{13})\/inventory\/?#730_2_(\d+)$/i.exec(link)
+        if (inventory) {
+            if (!d) {
+                throw new HttpException('Inventory URLs do not contain the D value of the inspect link, pass it as d', 400)
+            }
+            return { s: inventory[1], m: '0', a: inventory[2], d }
+        }
+
+        if (/steamcommunity\.com\/id\/[^/]+\/inventory/i.test(link)) {
+            throw new HttpException(
+                'Invalid Inspect URL: inventory URLs with a custom profile name are not supported, use the /profiles/<steam id>/inventory URL',
+                400,
+            )
+        }
+
+        if (/steamcommunity\.com\/profiles\/[^/]+\/inventory/i.test(link)) {
+            throw new HttpException(
+                'Invalid Inspect URL: the inventory URL does not point at a CS2 item (#730_2_<asset id>), or the # was not encoded as %23',
+                400,
+            )
+        }
+
+        throw new HttpException(
+            'Invalid Inspect URL: expected a steam:// inspect link, a Steam market link with inspectlink, a Steam inventory item URL or S...A...D...',
+            400,
+        )
     }
 }
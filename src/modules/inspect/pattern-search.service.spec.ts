@@ -0,0 +1,141 @@
+import { HttpException } from '@nestjs/common';
+import * as fs from 'fs';
+import { getFadePercentages } from './fade-calculator';
+import { PatternSearchQuery, PatternSearchService } from './pattern-search.service';
+
+const chPatterns = JSON.parse(fs.readFileSync('static/ch-patterns.json', 'utf8'));
+const dopplerPatterns = JSON.parse(fs.readFileSync('static/doppler-patterns.json', 'utf8'));
+
+const paint = (name: string) => ({ name, image: '', min: 0, max: 1 });
+
+const schema = {
+    weapons: {
+        '7': { name: 'AK-47', paints: { '44': paint('Case Hardened') } },
+        '507': {
+            name: 'Karambit',
+            paints: {
+                '38': paint('Fade'),
+                '44': paint('Case Hardened'),
+                '418': paint('Doppler (Phase 1)'),
+                '421': paint('Doppler (Phase 4)'),
+            },
+        },
+    },
+};
+
+const sorted = (seeds: number[]) => [...seeds].sort((a, b) => a - b);
+
+describe('PatternSearchService', () => {
+    let assetModel: { countDocuments: jest.Mock; find: jest.Mock };
+    let query: Record<string, jest.Mock>;
+    let service: PatternSearchService;
+
+    beforeEach(() => {
+        query = {};
+        for (const method of ['sort', 'skip', 'limit', 'lean']) {
+            query[method] = jest.fn(() => query);
+        }
+        query.exec = jest.fn().mockResolvedValue([{
+            assetId: 1,
+            ms: 76561198000000000,
+            defIndex: 507,
+            paintIndex: 44,
+            paintSeed: 387,
+            paintWear: 0.01,
+            updatedAt: new Date('2026-01-01'),
+        }]);
+
+        assetModel = {
+            countDocuments: jest.fn(() => ({ exec: jest.fn().mockResolvedValue(21) })),
+            find: jest.fn(() => query),
+        };
+        service = new PatternSearchService(assetModel as any, { schema } as any);
+    });
+
+    const expectBadRequest = async (search: PatternSearchQuery, message: string) => {
+        const error = await service.search(search).catch(error => error);
+
+        expect(error).toBeInstanceOf(HttpException);
+        expect((error as HttpException).getStatus()).toBe(400);
+        expect((error as HttpException).message).toBe(message);
+    };
+
+    it('searches the seeds of a Case Hardened tier', async () => {
+        const result = await service.search({ weapon: 'Karambit', type: 'case_hardened', pattern: 'Tier 1', page: 2, limit: 20 });
+        const filter = { defIndex: { $in: [507] }, paintIndex: { $in: [44] }, paintSeed: { $in: chPatterns.karambit['Tier 1'] } };
+
+        expect(result).toMatchObject({ weapon: 'karambit', seeds: sorted(chPatterns.karambit['Tier 1']), page: 2, limit: 20, total_count: 21 });
+        expect(assetModel.countDocuments).toHaveBeenCalledWith(filter);
+        expect(assetModel.find).toHaveBeenCalledWith(filter, expect.anything());
+        expect(query.sort).toHaveBeenCalledWith({ updatedAt: -1 });
+        expect(query.skip).toHaveBeenCalledWith(20);
+        expect(query.limit).toHaveBeenCalledWith(20);
+        expect(result.items).toEqual([{
+            asset_id: 1,
+            owner: '76561198000000000',
+            defindex: 507,
+            paintindex: 44,
+            paintseed: 387,
+            floatvalue: 0.01,
+            last_inspected: new Date('2026-01-01'),
+        }]);
+    });
+
+    it('searches fades by a percentage with or without trailing zeros', async () => {
+        const fade = getFadePercentages('Karambit').find(fade => fade.percentage.toFixed(2).endsWith('0') && !Number.isInteger(fade.percentage));
+        const twoDecimals = fade.percentage.toFixed(2);
+        const seeds = getFadePercentages('Karambit').filter(other => other.percentage.toFixed(2) === twoDecimals).map(other => other.seed);
+
+        for (const pattern of [twoDecimals, parseFloat(twoDecimals).toString()]) {
+            const result = await service.search({ weapon: 'karambit', type: 'fade', pattern });
+
+            expect(result.seeds).toEqual(sorted(seeds));
+            expect(result.seeds).toContain(fade.seed);
+        }
+        expect(assetModel.countDocuments).toHaveBeenLastCalledWith(expect.objectContaining({ paintIndex: { $in: [38] } }));
+    });
+
+    it('searches fades by a range of percentages', async () => {
+        const inRange = (min: number, max: number) => getFadePercentages('Karambit')
+            .filter(fade => parseFloat(fade.percentage.toFixed(2)) >= min && parseFloat(fade.percentage.toFixed(2)) <= max)
+            .map(fade => fade.seed);
+
+        const full = await service.search({ weapon: 'karambit', type: 'fade', min: 99 });
+        expect(full.seeds).toEqual(sorted(inRange(99, 100)));
+        expect(full.seeds.length).toBeGreaterThan(0);
+
+        const between = await service.search({ weapon: 'karambit', type: 'fade', min: 90, max: 95 });
+        expect(between.seeds).toEqual(sorted(inRange(90, 95)));
+        expect(between).toMatchObject({ min: 90, max: 95 });
+
+        const low = await service.search({ weapon: 'karambit', type: 'fade', max: 81 });
+        expect(low.seeds).toEqual(sorted(inRange(0, 81)));
+    });
+
+    it('searches Dopplers within a phase', async () => {
+        await expectBadRequest({ weapon: 'karambit', type: 'doppler', pattern: 'Max Blue' }, 'Phase is required for doppler patterns');
+
+        const result = await service.search({ weapon: 'karambit', type: 'doppler', pattern: 'Max Blue', phase: 'Phase 4' });
+        expect(result.seeds).toEqual(sorted(dopplerPatterns.karambit['Phase 4']?.['Max Blue'] ?? []));
+    });
+
+    it('does not query for patterns without seeds or paints', async () => {
+        await expect(service.search({ weapon: 'karambit', type: 'case_hardened', pattern: 'Tier 9' }))
+            .resolves.toMatchObject({ seeds: [], total_count: 0, items: [] });
+        await expect(service.search({ weapon: 'karambit', type: 'fade', pattern: 'not a percentage' }))
+            .resolves.toMatchObject({ seeds: [] });
+        // The AK-47 has no Fade in the schema
+        await expect(service.search({ weapon: 'ak47', type: 'fade', min: 0 }))
+            .resolves.toMatchObject({ seeds: [], items: [] });
+
+        expect(assetModel.countDocuments).not.toHaveBeenCalled();
+        expect(assetModel.find).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown weapons and invalid ranges', async () => {
+        await expectBadRequest({ weapon: 'spoon', type: 'fade', pattern: '99' }, 'Unknown weapon spoon');
+        await expectBadRequest({ weapon: 'karambit', type: 'case_hardened', min: 90 }, 'Min and max are only supported for fades');
+        await expectBadRequest({ weapon: 'karambit', type: 'fade', pattern: '99', min: 90 }, 'Search either by pattern or, for fades, by min and max');
+        await expectBadRequest({ weapon: 'karambit', type: 'fade' }, 'Search either by pattern or, for fades, by min and max');
+    });
+});
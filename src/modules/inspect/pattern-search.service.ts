@@ -0,0 +1,145 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Asset, AssetDocument } from 'src/schemas/asset.schema';
+import { dopplers, findWeaponKey, getFadeSeeds, getPatternSeeds, getWeaponName } from 'src/constants';
+import { PatternInfo } from './interfaces/schema.interface';
+import { SchemaService } from './schema.service';
+
+// Paint names of each pattern type in the item schema, dopplers are also split by phase
+const paintNames: Record<PatternSearchQuery['type'], string> = {
+    case_hardened: 'Case Hardened',
+    fade: 'Fade',
+    amber_fade: 'Amber Fade',
+    acid_fade: 'Acid Fade',
+    doppler: 'Doppler',
+    gamma_doppler: 'Gamma Doppler',
+};
+
+// Calculated from the seed, so they can also be searched by a range of percentages
+const fadeTypes: PatternSearchQuery['type'][] = ['fade', 'amber_fade', 'acid_fade'];
+
+export interface PatternSearchQuery {
+    weapon: string;
+    // Marble Fades are only named in the pattern_info of inspected items, see the README
+    type: Exclude<PatternInfo['type'], 'heat_treated' | 'marble_fade'>;
+    pattern?: string;
+    // Fades only, percentages searched instead of a pattern
+    min?: number;
+    max?: number;
+    phase?: string;
+    page?: number;
+    limit?: number;
+}
+
+@Injectable()
+export class PatternSearchService {
+    constructor(
+        @InjectModel(Asset.name)
+        private assetModel: Model<AssetDocument>,
+        private schemaService: SchemaService,
+    ) { }
+
+    /**
+     * Stored assets with one of the seeds of a pattern, most recently inspected first
+     */
+    public async search(query: PatternSearchQuery) {
+        const page = query.page ?? 1;
+        const limit = query.limit ?? 20;
+
+        const weaponKey = findWeaponKey(query.weapon);
+        if (!weaponKey) {
+            throw new HttpException(`Unknown weapon ${query.weapon}`, HttpStatus.BAD_REQUEST);
+        }
+        if ((query.type === 'doppler' || query.type === 'gamma_doppler') && !query.phase) {
+            throw new HttpException('Phase is required for doppler patterns', HttpStatus.BAD_REQUEST);
+        }
+
+        const isRange = query.min !== undefined || query.max !== undefined;
+        if (isRange && !fadeTypes.includes(query.type)) {
+            throw new HttpException('Min and max are only supported for fades', HttpStatus.BAD_REQUEST);
+        }
+        if (isRange === (query.pattern !== undefined)) {
+            throw new HttpException('Search either by pattern or, for fades, by min and max', HttpStatus.BAD_REQUEST);
+        }
+
+        const seeds = isRange
+            ? getFadeSeeds(query.type, weaponKey, query.min, query.max)
+            : getPatternSeeds(query.type, weaponKey, query.pattern, query.phase);
+        const { defIndexes, paintIndexes } = this.getPaints(getWeaponName(weaponKey), query.type, query.phase);
+
+        const result = {
+            weapon: weaponKey,
+            type: query.type,
+            pattern: query.pattern,
+            min: query.min,
+            max: query.max,
+            phase: query.phase,
+            seeds: [...seeds].sort((a, b) => a - b),
+            page,
+            limit,
+            total_count: 0,
+            items: [],
+        };
+
+        if (seeds.length === 0 || defIndexes.length === 0 || paintIndexes.length === 0) {
+            return result;
+        }
+
+        const filter = {
+            defIndex: { $in: defIndexes },
+            paintIndex: { $in: paintIndexes },
+            paintSeed: { $in: seeds },
+        };
+        const projection = { _id: 0, assetId: 1, ms: 1, defIndex: 1, paintIndex: 1, paintSeed: 1, paintWear: 1, updatedAt: 1 };
+
+        const [totalCount, assets] = await Promise.all([
+            this.assetModel.countDocuments(filter).exec(),
+            this.assetModel.find(filter, projection)
+                .sort({ updatedAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean()
+                .exec(),
+        ]);
+
+        result.total_count = totalCount;
+        result.items = assets.map((asset: any) => ({
+            asset_id: asset.assetId,
+            owner: String(asset.ms),
+            defindex: asset.defIndex,
+            paintindex: asset.paintIndex,
+            paintseed: asset.paintSeed,
+            floatvalue: asset.paintWear,
+            last_inspected: asset.updatedAt,
+        }));
+
+        return result;
+    }
+
+    private getPaints(weaponName: string, type: PatternSearchQuery['type'], phase?: string) {
+        const paintName = paintNames[type];
+        const defIndexes: number[] = [];
+        const paintIndexes = new Set<number>();
+
+        for (const [defIndex, weapon] of Object.entries(this.schemaService.schema.weapons)) {
+            if (weapon.name !== weaponName) {
+                continue;
+            }
+            defIndexes.push(parseInt(defIndex));
+
+            for (const [paintIndex, paint] of Object.entries(weapon.paints)) {
+                const isDoppler = type === 'doppler' || type === 'gamma_doppler';
+                const matches = isDoppler
+                    ? (paint.name === paintName || paint.name.startsWith(`${paintName} (`)) && dopplers[paintIndex] === phase
+                    : paint.name === paintName;
+
+                if (matches) {
+                    paintIndexes.add(parseInt(paintIndex));
+                }
+            }
+        }
+
+        return { defIndexes, paintIndexes: [...paintIndexes] };
+    }
+}
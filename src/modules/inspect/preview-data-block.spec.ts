@@ -0,0 +1,130 @@
+import { HttpException } from '@nestjs/common';
+import * as zlib from 'zlib';
+import { decodePreviewDataBlock, encodePreviewDataBlock, isPreviewDataBlock, PreviewDataBlock } from './preview-data-block';
+
+// Example link of https://github.com/csfloat/cs2-inspect-serializer
+const LINK = '00180720C80A280638A4E1F5FB03409A0562040800104C62040801104C62040802104C62040803104C6D4F5E30';
+
+const LINK_ITEM: PreviewDataBlock = {
+    defindex: 7,
+    paintindex: 1352,
+    rarity: 6,
+    paintwear: 0.9900000095367432,
+    paintseed: 666,
+    stickers: [0, 1, 2, 3].map(slot => ({ slot, sticker_id: 76 })),
+};
+
+/**
+ * Mask a protobuf message with the given key, the checksum is computed with zlib's CRC32
+ */
+const mask = (message: Buffer, key = 0): string => {
+    const data = Buffer.concat([Buffer.from([0]), message]);
+    const crc = BigInt(zlib.crc32(data));
+
+    const trailer = Buffer.alloc(4);
+    trailer.writeUInt32BE(Number(((crc & 0xffffn) ^ (BigInt(message.length) * crc)) & 0xffffffffn));
+    return Buffer.from(Buffer.concat([data, trailer]).map(byte => byte ^ key)).toString('hex').toUpperCase();
+};
+
+const expectBadRequest = (hex: string, message: string) => {
+    try {
+        decodePreviewDataBlock(hex);
+    } catch (error) {
+        expect(error).toBeInstanceOf(HttpException);
+        expect((error as HttpException).getStatus()).toBe(400);
+        expect((error as HttpException).message).toBe(`Invalid Inspect URL: the masked inspect link ${message}`);
+        return;
+    }
+    throw new Error('Expected a 400');
+};
+
+describe('preview-data-block', () => {
+    it('decodes a masked inspect link', () => {
+        expect(decodePreviewDataBlock(LINK)).toMatchObject(LINK_ITEM);
+        expect(decodePreviewDataBlock(LINK.toLowerCase())).toMatchObject(LINK_ITEM);
+    });
+
+    it('sets missing fields to null', () => {
+        expect(decodePreviewDataBlock(LINK)).toMatchObject({
+            accountid: null,
+            itemid: null,
+            quality: null,
+            customname: null,
+            keychains: [],
+        });
+    });
+
+    it('unmasks links with a key', () => {
+        const message = Buffer.from(LINK, 'hex').subarray(1, -4);
+
+        expect(mask(message)).toBe(LINK);
+        expect(decodePreviewDataBlock(mask(message, 0xa5))).toEqual(decodePreviewDataBlock(LINK));
+    });
+
+    it('encodes the link of the example', () => {
+        expect(encodePreviewDataBlock(LINK_ITEM)).toBe(LINK);
+    });
+
+    it('keeps every field through encoding and decoding', () => {
+        const item: PreviewDataBlock = {
+            accountid: 4294967295,
+            itemid: '18446744073709551615',
+            defindex: 508,
+            paintindex: 38,
+            rarity: 6,
+            quality: 3,
+            paintwear: 0.0625,
+            paintseed: 412,
+            killeaterscoretype: 0,
+            killeatervalue: 1337,
+            customname: 'Ünïcödé "fade"',
+            stickers: [{ slot: 2, sticker_id: 5, wear: 0.5, scale: 1.25, rotation: -45, tint_id: 0, offset_x: 0.125, offset_y: -0.25 }],
+            inventory: 3221225475,
+            origin: 8,
+            questid: 0,
+            dropreason: 0,
+            musicindex: 0,
+            entindex: -1,
+            petindex: 0,
+            keychains: [{ slot: 0, sticker_id: 36, offset_x: 10.5, offset_y: 0.5, offset_z: 7.75, pattern: 92475 }],
+        };
+
+        expect(decodePreviewDataBlock(encodePreviewDataBlock(item))).toEqual(item);
+    });
+
+    it('answers 400 for links that are not hex', () => {
+        expect(isPreviewDataBlock(LINK)).toBe(true);
+        expectBadRequest('S76561198084749846A698323590D7935523998312483177', 'is not valid hex');
+        expectBadRequest(`${LINK}0`, 'is not valid hex');
+        expectBadRequest('00180720', 'is not valid hex');
+    });
+
+    it('answers 400 for a bad checksum', () => {
+        expectBadRequest(`${LINK.slice(0, -2)}31`, 'has an invalid checksum');
+        expectBadRequest(LINK.replace('9A05', '9A06'), 'has an invalid checksum');
+        expectBadRequest('0018072000000000', 'has an invalid checksum');
+    });
+
+    it('answers 400 for cut off links', () => {
+        expectBadRequest(LINK.slice(0, -4), 'has an invalid checksum');
+    });
+
+    it('answers 400 for truncated messages', () => {
+        // A tag without its value
+        expectBadRequest(mask(Buffer.from([0x08, 0x01, 0x18])), 'is truncated');
+        // A varint that does not end
+        expectBadRequest(mask(Buffer.from([0x08, 0x01, 0x18, 0x87])), 'is truncated');
+        // A name of 5 bytes with one byte left
+        expectBadRequest(mask(Buffer.from([0x5a, 0x05, 0x41])), 'is truncated');
+        // A sticker wear of 4 bytes with two bytes left
+        expectBadRequest(mask(Buffer.from([0x62, 0x03, 0x1d, 0x00, 0x00])), 'is truncated');
+        // A 64 bit field with 2 bytes left
+        expectBadRequest(mask(Buffer.from([0xf9, 0x07, 0x00, 0x00])), 'is truncated');
+    });
+
+    it('answers 400 for malformed fields', () => {
+        expectBadRequest(mask(Buffer.from([0x1a, 0x01, 0x07])), 'has an unexpected wire type 2 for defindex');
+        expectBadRequest(mask(Buffer.from([0x5d, 0x00, 0x00, 0x00, 0x00])), 'has an unexpected wire type 5 for customname');
+        expectBadRequest(mask(Buffer.from([0x1b, 0x00, 0x00])), 'has an unsupported wire type 3');
+    });
+});
@@ -0,0 +1,303 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Encoding of CEconItemPreviewDataBlock as carried by masked inspect links
+ * (csgo_econ_action_preview followed by hex instead of S/M, A and D).
+ *
+ * Layout: one key byte, the protobuf message and a 4 byte checksum, every byte XORed with the key.
+ */
+
+export interface PreviewSticker {
+    slot?: number;
+    sticker_id?: number;
+    wear?: number;
+    scale?: number;
+    rotation?: number;
+    tint_id?: number;
+    offset_x?: number;
+    offset_y?: number;
+    offset_z?: number;
+    pattern?: number;
+}
+
+/**
+ * Same shape as the items returned by the Game Coordinator, missing fields are null
+ */
+export interface PreviewDataBlock {
+    accountid?: number;
+    itemid?: string;
+    defindex?: number;
+    paintindex?: number;
+    rarity?: number;
+    quality?: number;
+    paintwear?: number;
+    paintseed?: number;
+    killeaterscoretype?: number;
+    killeatervalue?: number;
+    customname?: string;
+    stickers?: PreviewSticker[];
+    inventory?: number;
+    origin?: number;
+    questid?: number;
+    dropreason?: number;
+    musicindex?: number;
+    entindex?: number;
+    petindex?: number;
+    keychains?: PreviewSticker[];
+}
+
+type FieldType = 'uint32' | 'int32' | 'uint64' | 'float' | 'floatBits' | 'string' | 'sticker';
+
+const WIRE_TYPES: Record<FieldType, number> = {
+    uint32: 0,
+    int32: 0,
+    uint64: 0,
+    floatBits: 0,
+    float: 5,
+    string: 2,
+    sticker: 2,
+};
+
+const ITEM_FIELDS: Array<[number, keyof PreviewDataBlock, FieldType]> = [
+    [1, 'accountid', 'uint32'],
+    [2, 'itemid', 'uint64'],
+    [3, 'defindex', 'uint32'],
+    [4, 'paintindex', 'uint32'],
+    [5, 'rarity', 'uint32'],
+    [6, 'quality', 'uint32'],
+    // A float sent as its uint32 bits
+    [7, 'paintwear', 'floatBits'],
+    [8, 'paintseed', 'uint32'],
+    [9, 'killeaterscoretype', 'uint32'],
+    [10, 'killeatervalue', 'uint32'],
+    [11, 'customname', 'string'],
+    [12, 'stickers', 'sticker'],
+    [13, 'inventory', 'uint32'],
+    [14, 'origin', 'uint32'],
+    [15, 'questid', 'uint32'],
+    [16, 'dropreason', 'uint32'],
+    [17, 'musicindex', 'uint32'],
+    [18, 'entindex', 'int32'],
+    [19, 'petindex', 'uint32'],
+    [20, 'keychains', 'sticker'],
+];
+
+const STICKER_FIELDS: Array<[number, keyof PreviewSticker, FieldType]> = [
+    [1, 'slot', 'uint32'],
+    [2, 'sticker_id', 'uint32'],
+    [3, 'wear', 'float'],
+    [4, 'scale', 'float'],
+    [5, 'rotation', 'float'],
+    [6, 'tint_id', 'uint32'],
+    [7, 'offset_x', 'float'],
+    [8, 'offset_y', 'float'],
+    [9, 'offset_z', 'float'],
+    [10, 'pattern', 'uint32'],
+];
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+const crc32 = (buffer: Buffer): number => {
+    let crc = 0xffffffff;
+    for (const byte of buffer) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Checksum over the key byte and the message, as computed by the game
+ */
+const checksum = (data: Buffer, messageLength: number): number => {
+    const crc = BigInt(crc32(data));
+    return Number(((crc & 0xffffn) ^ (BigInt(messageLength) * crc)) & 0xffffffffn);
+};
+
+const invalidLink = (reason: string) =>
+    new HttpException(`Invalid Inspect URL: the masked inspect link ${reason}`, HttpStatus.BAD_REQUEST);
+
+export const isPreviewDataBlock = (value: string): boolean =>
+    /^([0-9a-f]{2}){8,}$/i.test(value);
+
+/**
+ * Decode the hex of a masked inspect link, throws a 400 for links that are not valid
+ */
+export const decodePreviewDataBlock = (hex: string): PreviewDataBlock => {
+    if (!isPreviewDataBlock(hex)) {
+        throw invalidLink('is not valid hex');
+    }
+
+    const raw = Buffer.from(hex, 'hex');
+    const key = raw[0];
+    const data = Buffer.from(raw.map(byte => byte ^ key));
+
+    const message = data.subarray(1, data.length - 4);
+    if (data.readUInt32BE(data.length - 4) !== checksum(data.subarray(0, data.length - 4), message.length)) {
+        throw invalidLink('has an invalid checksum');
+    }
+
+    const item = decodeMessage(message, ITEM_FIELDS) as PreviewDataBlock;
+    for (const [, name, type] of ITEM_FIELDS) {
+        if (type === 'sticker') {
+            item[name as 'stickers'] = (item[name] as PreviewSticker[]) ?? [];
+        } else if (item[name] === undefined) {
+            (item as any)[name] = null;
+        }
+    }
+    return item;
+};
+
+/**
+ * Encode an item unmasked (key byte 0), as hex for a masked inspect link
+ */
+export const encodePreviewDataBlock = (item: PreviewDataBlock): string => {
+    const message = encodeMessage(item, ITEM_FIELDS);
+    const data = Buffer.concat([Buffer.from([0]), message]);
+
+    const trailer = Buffer.alloc(4);
+    trailer.writeUInt32BE(checksum(data, message.length));
+    return Buffer.concat([data, trailer]).toString('hex').toUpperCase();
+};
+
+const decodeMessage = (buffer: Buffer, fields: Array<[number, string, FieldType]>): Record<string, any> => {
+    const result: Record<string, any> = {};
+    let position = 0;
+
+    const readVarint = (): bigint => {
+        let value = 0n;
+        let shift = 0n;
+        while (position < buffer.length) {
+            const byte = buffer[position++];
+            value |= BigInt(byte & 0x7f) << shift;
+            if (!(byte & 0x80)) return value;
+            shift += 7n;
+        }
+        throw invalidLink('is truncated');
+    };
+
+    const skip = (length: number): number => {
+        if (position + length > buffer.length) {
+            throw invalidLink('is truncated');
+        }
+        position += length;
+        return position - length;
+    };
+
+    while (position < buffer.length) {
+        const tag = Number(readVarint());
+        const fieldNumber = tag >>> 3;
+        const wireType = tag & 7;
+        const field = fields.find(([number]) => number === fieldNumber);
+
+        let value: any;
+        if (wireType === 0) {
+            value = readVarint();
+        } else if (wireType === 5) {
+            value = buffer.readUInt32LE(skip(4));
+        } else if (wireType === 1) {
+            skip(8);
+            continue;
+        } else if (wireType === 2) {
+            const length = Number(readVarint());
+            value = buffer.subarray(skip(length), position);
+        } else {
+            throw invalidLink(`has an unsupported wire type ${wireType}`);
+        }
+
+        if (!field) continue;
+        const [, name, type] = field;
+        if (WIRE_TYPES[type] !== wireType) {
+            throw invalidLink(`has an unexpected wire type ${wireType} for ${name}`);
+        }
+
+        switch (type) {
+            case 'uint32':
+                result[name] = Number(BigInt.asUintN(32, value));
+                break;
+            case 'int32':
+                result[name] = Number(BigInt.asIntN(32, value));
+                break;
+            case 'uint64':
+                result[name] = BigInt.asUintN(64, value).toString();
+                break;
+            case 'floatBits':
+                result[name] = uint32ToFloat(Number(BigInt.asUintN(32, BigInt(value))));
+                break;
+            case 'float':
+                result[name] = uint32ToFloat(value);
+                break;
+            case 'string':
+                result[name] = (value as Buffer).toString('utf8');
+                break;
+            case 'sticker':
+                result[name] = [...(result[name] ?? []), decodeMessage(value, STICKER_FIELDS)];
+                break;
+        }
+    }
+
+    return result;
+};
+
+const encodeMessage = (item: Record<string, any>, fields: Array<[number, string, FieldType]>): Buffer => {
+    const chunks: Buffer[] = [];
+
+    for (const [fieldNumber, name, type] of fields) {
+        const value = item[name];
+        if (value === null || value === undefined) continue;
+
+        switch (type) {
+            case 'uint32':
+            case 'int32':
+            case 'uint64':
+                chunks.push(encodeVarint(BigInt(fieldNumber << 3)), encodeVarint(BigInt.asUintN(64, BigInt(value))));
+                break;
+            case 'floatBits':
+                chunks.push(encodeVarint(BigInt(fieldNumber << 3)), encodeVarint(BigInt(floatToUint32(value))));
+                break;
+            case 'float': {
+                const bytes = Buffer.alloc(4);
+                bytes.writeFloatLE(value);
+                chunks.push(encodeVarint(BigInt((fieldNumber << 3) | 5)), bytes);
+                break;
+            }
+            case 'string':
+            case 'sticker':
+                for (const entry of type === 'string' ? [value] : value) {
+                    const bytes = type === 'string' ? Buffer.from(entry, 'utf8') : encodeMessage(entry, STICKER_FIELDS);
+                    chunks.push(encodeVarint(BigInt((fieldNumber << 3) | 2)), encodeVarint(BigInt(bytes.length)), bytes);
+                }
+                break;
+        }
+    }
+
+    return Buffer.concat(chunks);
+};
+
+const encodeVarint = (value: bigint): Buffer => {
+    const bytes: number[] = [];
+    do {
+        let byte = Number(value & 0x7fn);
+        value >>= 7n;
+        if (value > 0n) byte |= 0x80;
+        bytes.push(byte);
+    } while (value > 0n);
+    return Buffer.from(bytes);
+};
+
+const uint32ToFloat = (value: number): number => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32BE(value >>> 0);
+    return buffer.readFloatBE(0);
+};
+
+const floatToUint32 = (value: number): number => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeFloatBE(value);
+    return buffer.readUInt32BE(0);
+};
@@ -0,0 +1,162 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { Asset, AssetDocument } from 'src/schemas/asset.schema';
+
+export type RankingVariant = 'normal' | 'stattrak' | 'souvenir';
+
+export interface Ranking {
+    low_rank: number;
+    high_rank: number;
+    totalCount: number;
+}
+
+interface RankingItem {
+    defIndex: number;
+    paintIndex?: number;
+    paintWear?: number;
+    quality?: number;
+    killeaterValue?: number;
+}
+
+interface CachedSkin {
+    totalCount: number;
+    ranks: Map<number, Ranking>;
+    expiresAt: number;
+}
+
+@Injectable()
+export class RankingService {
+    private readonly CACHE_TTL = parseInt(process.env.RANKING_CACHE_TTL || '300000');
+    private readonly CACHE_MAX_SKINS = parseInt(process.env.RANKING_CACHE_MAX_SKINS || '10000');
+
+    private skins: Map<string, CachedSkin> = new Map();
+
+    constructor(
+        @InjectModel(Asset.name)
+        private assetModel: Model<AssetDocument>,
+    ) { }
+
+    public getVariant(item: RankingItem): RankingVariant {
+        if (item.killeaterValue !== null && item.killeaterValue !== undefined) {
+            return 'stattrak';
+        }
+        return item.quality === 12 ? 'souvenir' : 'normal';
+    }
+
+    /**
+     * Position of the item's float among all stored items of the same skin and variant, 1 being the lowest/highest float
+     */
+    public async getRanking(item: RankingItem): Promise<Ranking | undefined> {
+        if (!item.paintIndex || item.paintWear === null || item.paintWear === undefined) {
+            return undefined;
+        }
+
+        const filter = this.filter(item.defIndex, item.paintIndex, this.getVariant(item));
+        const skin = await this.getSkin(item.defIndex, item.paintIndex, this.getVariant(item), filter);
+
+        const cached = skin.ranks.get(item.paintWear);
+        if (cached) {
+            return cached;
+        }
+
+        // Both counts are answered by the paintIndex/defIndex/paintWear index without loading documents
+        const [lower, higher] = await Promise.all([
+            this.assetModel.countDocuments({ ...filter, paintWear: { $lt: item.paintWear } }).exec(),
+            this.assetModel.countDocuments({ ...filter, paintWear: { $gt: item.paintWear } }).exec(),
+        ]);
+
+        const ranking = { low_rank: lower + 1, high_rank: higher + 1, totalCount: skin.totalCount };
+        skin.ranks.set(item.paintWear, ranking);
+        return ranking;
+    }
+
+    /**
+     * Lowest and highest floats stored for a skin
+     */
+    public async getTop(defIndex: number, paintIndex: number, variant: RankingVariant, limit: number) {
+        const filter = this.filter(defIndex, paintIndex, variant);
+        const projection = { _id: 0, assetId: 1, paintWear: 1, paintSeed: 1 };
+
+        const [totalCount, lowest, highest] = await Promise.all([
+            this.assetModel.countDocuments(filter).exec(),
+            this.assetModel.find(filter, projection).sort({ paintWear: 1 }).limit(limit).lean().exec(),
+            this.assetModel.find(filter, projection).sort({ paintWear: -1 }).limit(limit).lean().exec(),
+        ]);
+
+        const toEntry = (asset: any, index: number) => ({
+            rank: index + 1,
+            asset_id: asset.assetId,
+            floatvalue: asset.paintWear,
+            paintseed: asset.paintSeed,
+        });
+
+        return {
+            defindex: defIndex,
+            paintindex: paintIndex,
+            variant,
+            total_count: totalCount,
+            lowest: lowest.map(toEntry),
+            highest: highest.map(toEntry),
+        };
+    }
+
+    /**
+     * Forget the cached rankings of the item's skin after a new asset of it was stored
+     */
+    public invalidate(item: RankingItem): void {
+        if (item.paintIndex) {
+            this.skins.delete(this.key(item.defIndex, item.paintIndex, this.getVariant(item)));
+        }
+    }
+
+    private async getSkin(
+        defIndex: number,
+        paintIndex: number,
+        variant: RankingVariant,
+        filter: FilterQuery<AssetDocument>,
+    ): Promise<CachedSkin> {
+        const key = this.key(defIndex, paintIndex, variant);
+        const cached = this.skins.get(key);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached;
+        }
+
+        if (this.skins.size >= this.CACHE_MAX_SKINS) {
+            // Maps iterate in insertion order, so this drops the oldest entry
+            this.skins.delete(this.skins.keys().next().value);
+        }
+
+        const skin = {
+            totalCount: await this.assetModel.countDocuments(filter).exec(),
+            ranks: new Map<number, Ranking>(),
+            expiresAt: Date.now() + this.CACHE_TTL,
+        };
+        this.skins.delete(key);
+        this.skins.set(key, skin);
+        return skin;
+    }
+
+    private filter(defIndex: number, paintIndex: number, variant: RankingVariant): FilterQuery<AssetDocument> {
+        const filter: FilterQuery<AssetDocument> = { defIndex, paintIndex };
+
+        switch (variant) {
+            case 'stattrak':
+                filter.killeaterValue = { $ne: null };
+                break;
+            case 'souvenir':
+                filter.killeaterValue = null;
+                filter.quality = 12;
+                break;
+            default:
+                filter.killeaterValue = null;
+                filter.quality = { $ne: 12 };
+        }
+
+        return filter;
+    }
+
+    private key(defIndex: number, paintIndex: number, variant: RankingVariant): string {
+        return `${defIndex}_${paintIndex}_${variant}`;
+    }
+}
@@ -0,0 +1,90 @@
+import { parseKeyValues } from './keyvalues';
+
+describe('parseKeyValues', () => {
+    it('parses nested sections', () => {
+        expect(parseKeyValues(`
+            "items_game"
+            {
+                "items"
+                {
+                    "7"
+                    {
+                        "name"      "weapon_ak47"
+                        "prefab"    "weapon_ak47_prefab"
+                    }
+                }
+            }
+        `)).toEqual({
+            items_game: {
+                items: {
+                    '7': { name: 'weapon_ak47', prefab: 'weapon_ak47_prefab' },
+                },
+            },
+        });
+    });
+
+    it('reads unquoted tokens', () => {
+        expect(parseKeyValues('lang { Language English }')).toEqual({ lang: { Language: 'English' } });
+    });
+
+    it('unescapes quotes, backslashes, tabs and newlines', () => {
+        expect(parseKeyValues(String.raw`"a" "say \"hi\"" "b" "C:\\game" "c" "one\ttwo\nthree"`)).toEqual({
+            a: 'say "hi"',
+            b: 'C:\\game',
+            c: 'one\ttwo\nthree',
+        });
+    });
+
+    it('skips comments', () => {
+        expect(parseKeyValues(`
+            // leading comment
+            "section" // after a key
+            {
+                "key" "value" // after a value
+                // "ignored" "value"
+                "url" "https://example.com"
+            }
+        `)).toEqual({ section: { key: 'value', url: 'https://example.com' } });
+    });
+
+    it('ignores platform conditionals after keys and values', () => {
+        expect(parseKeyValues(`
+            "section"
+            {
+                "windows" "1" [$WIN32]
+                "linux" [!$WIN32] "2"
+                "nested" [$X360]
+                {
+                    "key" "value"
+                }
+            }
+        `)).toEqual({ section: { windows: '1', linux: '2', nested: { key: 'value' } } });
+    });
+
+    it('keeps the last of duplicate values', () => {
+        expect(parseKeyValues('"section" { "key" "first" "key" "second" }')).toEqual({ section: { key: 'second' } });
+    });
+
+    it('merges sections split over several blocks', () => {
+        expect(parseKeyValues(`
+            "items_game"
+            {
+                "items" { "1" { "name" "weapon_deagle" "tags" { "a" "1" } } }
+                "items" { "2" { "name" "weapon_elite" } "1" { "tags" { "b" "2" } } }
+            }
+        `)).toEqual({
+            items_game: {
+                items: {
+                    '1': { name: 'weapon_deagle', tags: { a: '1', b: '2' } },
+                    '2': { name: 'weapon_elite' },
+                },
+            },
+        });
+    });
+
+    it('skips a byte order mark and stops at unbalanced input', () => {
+        expect(parseKeyValues('\uFEFF"a" "1"')).toEqual({ a: '1' });
+        expect(parseKeyValues('"section" { "key" "value"')).toEqual({ section: { key: 'value' } });
+        expect(parseKeyValues('"dangling"')).toEqual({});
+    });
+});
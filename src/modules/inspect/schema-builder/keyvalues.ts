@@ -0,0 +1,102 @@
+/**
+ * Minimal parser for Valve's KeyValues text format (items_game.txt, csgo_english.txt)
+ */
+export type KeyValues = { [key: string]: string | KeyValues };
+
+export const parseKeyValues = (text: string): KeyValues => {
+    let position = 0;
+
+    const skipWhitespaceAndComments = () => {
+        while (position < text.length) {
+            const char = text[position];
+            if (char === '/' && text[position + 1] === '/') {
+                while (position < text.length && text[position] !== '\n') position++;
+            } else if (char === ' ' || char === '\t' || char === '\r' || char === '\n' || char === '\uFEFF') {
+                position++;
+            } else {
+                break;
+            }
+        }
+    };
+
+    const readToken = (): string | null => {
+        skipWhitespaceAndComments();
+        if (position >= text.length) {
+            return null;
+        }
+
+        const char = text[position];
+        if (char === '{' || char === '}') {
+            position++;
+            return char;
+        }
+
+        if (char === '"') {
+            position++;
+            let value = '';
+            while (position < text.length && text[position] !== '"') {
+                if (text[position] === '\\' && position + 1 < text.length) {
+                    const next = text[position + 1];
+                    value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+                    position += 2;
+                } else {
+                    value += text[position++];
+                }
+            }
+            position++;
+            return value;
+        }
+
+        const start = position;
+        while (position < text.length && !/[\s{}"]/.test(text[position])) position++;
+        return text.substring(start, position);
+    };
+
+    // Platform conditionals such as [$WIN32] follow a key or value and are ignored
+    const skipConditional = () => {
+        skipWhitespaceAndComments();
+        if (text[position] === '[') {
+            while (position < text.length && text[position] !== ']') position++;
+            position++;
+        }
+    };
+
+    const parseObject = (): KeyValues => {
+        const result: KeyValues = {};
+
+        while (true) {
+            const key = readToken();
+            if (key === null || key === '}') {
+                return result;
+            }
+            skipConditional();
+
+            const value = readToken();
+            if (value === null) {
+                return result;
+            }
+
+            if (value === '{') {
+                const child = parseObject();
+                const existing = result[key];
+                // Sections such as "items" can be split over several blocks
+                result[key] = typeof existing === 'object' ? mergeKeyValues(existing, child) : child;
+            } else {
+                skipConditional();
+                result[key] = value;
+            }
+        }
+    };
+
+    return parseObject();
+};
+
+const mergeKeyValues = (target: KeyValues, source: KeyValues): KeyValues => {
+    for (const [key, value] of Object.entries(source)) {
+        const existing = target[key];
+        target[key] = typeof existing === 'object' && typeof value === 'object'
+            ? mergeKeyValues(existing, value)
+            : value;
+    }
+    return target;
+};
@@ -0,0 +1,201 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SchemaBuilderService } from './schema-builder.service';
+
+// Trimmed down excerpts of items_game.txt and csgo_english.txt
+const ITEMS_GAME = `
+"items_game"
+{
+    "rarities"
+    {
+        "common"    { "value" "1" "loc_key" "Rarity_Common" "loc_key_weapon" "Rarity_Common_Weapon" "loc_key_character" "Rarity_Common_Character" "color" "desc_common" }
+        "legendary" { "value" "5" "loc_key" "Rarity_Legendary" "loc_key_weapon" "Rarity_Legendary_Weapon" "loc_key_character" "Rarity_Legendary_Character" "color" "desc_legendary" }
+    }
+    "colors"
+    {
+        "desc_common"       { "hex_color" "#b0c3d9" }
+        "desc_legendary"    { "hex_color" "#d32ce6" }
+    }
+    "prefabs"
+    {
+        "weapon_base"       { "item_class" "weapon" }
+        "rifle"             { "prefab" "weapon_base" }
+        "weapon_ak47_prefab" { "prefab" "rifle" "item_name" "#SFUI_WPNHUD_AK47" }
+        "melee_unusual"     { "prefab" "weapon_base" }
+        "hands_paintable"   { "item_class" "wearable_item" }
+        "customplayertradable" { "item_class" "customplayer" }
+    }
+    "items"
+    {
+        "7"     { "name" "weapon_ak47" "prefab" "weapon_ak47_prefab" }
+        "507"   { "name" "weapon_knife_karambit" "prefab" "melee_unusual" "item_name" "#SFUI_WPNHUD_knife_karambit" }
+        "5030"  { "name" "sporty_gloves" "prefab" "hands_paintable" "item_name" "#CSGO_Wearable_v_sporty_glove" }
+        "4619"  { "name" "customplayer_tm_balkan_variantk" "prefab" "customplayertradable" "item_name" "#CSGO_CustomPlayer_tm_balkan_variantk" }
+        "1209"  { "name" "sticker" "item_name" "#CSGO_Tool_Sticker" }
+    }
+    "paint_kits"
+    {
+        "0"     { "name" "default" "wear_remap_min" "0.060000" "wear_remap_max" "0.800000" }
+        "44"    { "name" "aq_oiled" "description_tag" "#PaintKit_aq_oiled_Tag" "wear_remap_min" "0.000000" "wear_remap_max" "1.000000" }
+        "38"    { "name" "aa_fade" "description_tag" "#PaintKit_aa_fade_Tag" "wear_remap_max" "0.080000" }
+        "10037" { "name" "slick_pink" "description_tag" "#PaintKit_slick_pink_Tag" }
+    }
+    "paint_kits_rarity"
+    {
+        "aq_oiled"  "legendary"
+        "aa_fade"   "legendary"
+    }
+    "alternate_icons2"
+    {
+        "weapon_icons"
+        {
+            "1"     { "icon_path" "econ/default_generated/weapon_ak47_aq_oiled_light" }
+            "2"     { "icon_path" "econ/default_generated/weapon_ak47_aq_oiled_medium" }
+            "3"     { "icon_path" "econ/default_generated/weapon_knife_karambit_aa_fade_light" }
+            "4"     { "icon_path" "econ/default_generated/sporty_gloves_slick_pink_heavy" }
+            "5"     { "icon_path" "econ/default_generated/weapon_awp_aq_oiled_light" }
+        }
+    }
+    "item_sets"
+    {
+        "set_bravo_i"
+        {
+            "name" "#CSGO_set_bravo_i"
+            "items"
+            {
+                "[aq_oiled]weapon_ak47" "1"
+                "[unknown_kit]weapon_ak47" "1"
+            }
+        }
+        "set_empty" { "name" "#CSGO_set_empty" "items" { } }
+    }
+    "sticker_kits"
+    {
+        "0"     { "name" "default" "item_name" "#StickerKit_Default" }
+        "1"     { "name" "dhw2014_dignitas" "item_name" "#StickerKit_dhw2014_dignitas" }
+        "4553"  { "name" "patch_phoenix" "item_name" "#PatchKit_patch_phoenix" "patch_material" "phoenix" }
+        "1659"  { "name" "spray_nice_shot" "item_name" "#SprayKit_nice_shot" }
+    }
+    "keychain_definitions"
+    {
+        "1"     { "name" "kc_missinglink_ava" "loc_name" "#keychain_kc_missinglink_ava" }
+    }
+}
+`;
+
+const ENGLISH = `
+"lang"
+{
+    "Language" "English"
+    "Tokens"
+    {
+        "Rarity_Common"                     "Base Grade"
+        "Rarity_Common_Weapon"              "Consumer Grade"
+        "Rarity_Common_Character"           "Base Grade"
+        "Rarity_Legendary"                  "Exotic"
+        "Rarity_Legendary_Weapon"           "Classified"
+        "Rarity_Legendary_Character"        "Superior"
+        "SFUI_WPNHUD_AK47"                  "AK-47"
+        "SFUI_WPNHUD_knife_karambit"        "Karambit"
+        "CSGO_Wearable_v_sporty_glove"      "Sport Gloves"
+        "CSGO_CustomPlayer_tm_balkan_variantk" "Sergeant Bombson | Phoenix"
+        "PaintKit_aq_oiled_Tag"             "Case Hardened"
+        "PaintKit_aa_fade_Tag"              "Fade"
+        "PaintKit_slick_pink_Tag"           "Pink Nightmare"
+        "CSGO_set_bravo_i"                  "The Bravo Collection"
+        "StickerKit_dhw2014_dignitas"       "Team Dignitas | DreamHack 2014"
+        "PatchKit_patch_phoenix"            "Phoenix"
+        "SprayKit_nice_shot"                "Nice Shot"
+        "keychain_kc_missinglink_ava"       "Lil' Ava"
+    }
+}
+`;
+
+describe('SchemaBuilderService', () => {
+    const service = new SchemaBuilderService();
+    const schema = service.build(ITEMS_GAME, ENGLISH);
+
+    it('adds weapons and gloves by their defindex', () => {
+        expect(Object.keys(schema.weapons).sort()).toEqual(['5030', '507', '7']);
+        expect(schema.weapons['7'].name).toBe('AK-47');
+        expect(schema.weapons['507'].name).toBe('Karambit');
+        expect(schema.weapons['5030'].name).toBe('Sport Gloves');
+    });
+
+    it('adds the paints of the generated weapon icons', () => {
+        expect(schema.weapons['7'].paints).toEqual({
+            '44': {
+                name: 'Case Hardened',
+                image: '',
+                min: 0,
+                max: 1,
+                rarity: 5,
+                collection: 'set_bravo_i',
+            },
+        });
+        expect(Object.keys(schema.weapons['5030'].paints)).toEqual(['10037']);
+    });
+
+    it('falls back to the default paint kit for missing wear limits and rarities', () => {
+        expect(schema.weapons['507'].paints['38']).toMatchObject({ name: 'Fade', min: 0.06, max: 0.08, rarity: 5 });
+        expect(schema.weapons['5030'].paints['10037']).toMatchObject({ min: 0.06, max: 0.8, rarity: undefined });
+    });
+
+    it('adds collections with their known items only', () => {
+        expect(schema.collections).toEqual({
+            set_bravo_i: {
+                name: 'The Bravo Collection',
+                items: [{ defindex: 7, paintindex: 44 }],
+            },
+        });
+    });
+
+    it('tells stickers, patches and graffiti apart', () => {
+        expect(schema.stickers).toEqual({
+            '1': { market_hash_name: 'Sticker | Team Dignitas | DreamHack 2014' },
+            '4553': { market_hash_name: 'Patch | Phoenix' },
+        });
+        expect(schema.graffiti).toEqual({ '1659': { market_hash_name: 'Sealed Graffiti | Nice Shot' } });
+    });
+
+    it('adds agents and keychains', () => {
+        expect(schema.agents).toEqual({ '4619': { market_hash_name: 'Sergeant Bombson | Phoenix', image: '' } });
+        expect(schema.keychains).toEqual({ '1': { market_hash_name: "Charm | Lil' Ava" } });
+    });
+
+    it('adds rarities with their colors', () => {
+        expect(schema.rarities).toEqual({
+            '1': { name: 'Base Grade', weapon_name: 'Consumer Grade', character_name: 'Base Grade', color: '#b0c3d9' },
+            '5': { name: 'Exotic', weapon_name: 'Classified', character_name: 'Superior', color: '#d32ce6' },
+        });
+    });
+
+    it('keeps untranslated tokens', () => {
+        const untranslated = service.build(ITEMS_GAME, '"lang" { "Tokens" { } }');
+
+        expect(untranslated.weapons['7'].name).toBe('#SFUI_WPNHUD_AK47');
+    });
+
+    it('rejects files without an items_game section', () => {
+        expect(() => service.build('"items" { }', ENGLISH)).toThrow('items_game.txt has no items_game section');
+    });
+
+    it('reads UTF-16 localization files from disk', () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'schema-builder-'));
+        const itemsGamePath = path.join(directory, 'items_game.txt');
+        const englishPath = path.join(directory, 'csgo_english.txt');
+        fs.writeFileSync(itemsGamePath, ITEMS_GAME);
+        fs.writeFileSync(englishPath, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(ENGLISH, 'utf16le')]));
+
+        process.env.ITEMS_GAME_PATH = itemsGamePath;
+        process.env.CSGO_ENGLISH_PATH = englishPath;
+        try {
+            expect(new SchemaBuilderService().buildFromDisk()).toEqual(schema);
+        } finally {
+            delete process.env.ITEMS_GAME_PATH;
+            delete process.env.CSGO_ENGLISH_PATH;
+            fs.rmSync(directory, { recursive: true });
+        }
+    });
+});
@@ -0,0 +1,227 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import { Collection, Paint, Rarity, Schema } from '../interfaces/schema.interface';
+import { KeyValues, parseKeyValues } from './keyvalues';
+
+const WEAR_SUFFIX = /_(light|medium|heavy)$/;
+
+@Injectable()
+export class SchemaBuilderService {
+    private readonly logger = new Logger(SchemaBuilderService.name);
+    private readonly ITEMS_GAME_PATH = process.env.ITEMS_GAME_PATH || 'static/game/items_game.txt';
+    private readonly CSGO_ENGLISH_PATH = process.env.CSGO_ENGLISH_PATH || 'static/game/csgo_english.txt';
+
+    /**
+     * Build the schema from the game files configured through ITEMS_GAME_PATH and CSGO_ENGLISH_PATH
+     */
+    public buildFromDisk(): Schema {
+        return this.build(
+            this.readGameFile(this.ITEMS_GAME_PATH),
+            this.readGameFile(this.CSGO_ENGLISH_PATH),
+        );
+    }
+
+    public build(itemsGameText: string, englishText: string): Schema {
+        const itemsGame = parseKeyValues(itemsGameText).items_game as KeyValues;
+        if (!itemsGame) {
+            throw new Error('items_game.txt has no items_game section');
+        }
+
+        const tokens = this.parseTokens(englishText);
+        const translate = (key?: string | KeyValues) =>
+            typeof key === 'string' ? tokens[key.replace(/^#/, '').toLowerCase()] ?? key : undefined;
+
+        const items = this.section(itemsGame, 'items');
+        const prefabs = this.section(itemsGame, 'prefabs');
+        const paintKits = this.section(itemsGame, 'paint_kits');
+        const paintKitRarities = this.section(itemsGame, 'paint_kits_rarity');
+        const defaultKit = this.section(paintKits, '0');
+
+        const schema: Schema = {
+            weapons: {},
+            stickers: {},
+            agents: {},
+            graffiti: {},
+            keychains: {},
+            rarities: this.buildRarities(itemsGame, translate),
+            collections: {},
+        };
+
+        const weaponsByName = new Map<string, string>();
+        for (const [defIndex, item] of Object.entries(items)) {
+            if (typeof item !== 'object') continue;
+
+            const resolved = this.resolvePrefabs(item, prefabs);
+            const name = resolved.name as string;
+            const prefabChain = resolved.prefab_chain as string;
+
+            if (name?.startsWith('weapon_') || prefabChain.includes(' hands_paintable ')) {
+                schema.weapons[defIndex] = { name: translate(resolved.item_name), paints: {} };
+                weaponsByName.set(name, defIndex);
+            } else if (prefabChain.includes(' customplayertradable ')) {
+                schema.agents[defIndex] = { market_hash_name: translate(resolved.item_name), image: '' };
+            }
+        }
+
+        const paintKitsByName = new Map<string, string>();
+        for (const [paintIndex, kit] of Object.entries(paintKits)) {
+            if (typeof kit === 'object' && paintIndex !== '0' && typeof kit.name === 'string') {
+                paintKitsByName.set(kit.name, paintIndex);
+            }
+        }
+
+        const createPaint = (paintIndex: string): Paint => {
+            const kit = this.section(paintKits, paintIndex);
+            const rarity = this.section(itemsGame, 'rarities')[paintKitRarities[kit.name as string] as string];
+
+            return {
+                name: translate(kit.description_tag),
+                image: '',
+                min: parseFloat((kit.wear_remap_min ?? defaultKit.wear_remap_min ?? '0') as string),
+                max: parseFloat((kit.wear_remap_max ?? defaultKit.wear_remap_max ?? '1') as string),
+                rarity: typeof rarity === 'object' ? parseInt(rarity.value as string) : undefined,
+            };
+        };
+
+        const addPaint = (weaponName: string, paintKitName: string): [string, string] | undefined => {
+            const defIndex = weaponsByName.get(weaponName);
+            const paintIndex = paintKitsByName.get(paintKitName);
+            if (!defIndex || !paintIndex) {
+                return undefined;
+            }
+
+            const paints = schema.weapons[defIndex].paints;
+            paints[paintIndex] = paints[paintIndex] ?? createPaint(paintIndex);
+            return [defIndex, paintIndex];
+        };
+
+        // Every skinned weapon has a generated icon named <weapon>_<paint kit>_<wear>
+        const weaponNames = [...weaponsByName.keys()].sort((a, b) => b.length - a.length);
+        for (const icon of Object.values(this.section(this.section(itemsGame, 'alternate_icons2'), 'weapon_icons'))) {
+            if (typeof icon !== 'object' || typeof icon.icon_path !== 'string') continue;
+
+            const combination = icon.icon_path.split('/').pop().replace(WEAR_SUFFIX, '');
+            const weaponName = weaponNames.find(name => combination.startsWith(`${name}_`));
+            if (weaponName) {
+                addPaint(weaponName, combination.substring(weaponName.length + 1));
+            }
+        }
+
+        for (const [key, set] of Object.entries(this.section(itemsGame, 'item_sets'))) {
+            if (typeof set !== 'object') continue;
+
+            const collection: Collection = { name: translate(set.name), items: [] };
+            for (const entry of Object.keys(this.section(set, 'items'))) {
+                const match = entry.match(/^\[(.+)\](.+)$/);
+                const added = match && addPaint(match[2], match[1]);
+                if (!added) continue;
+
+                const [defIndex, paintIndex] = added;
+                schema.weapons[defIndex].paints[paintIndex].collection = key;
+                collection.items.push({ defindex: parseInt(defIndex), paintindex: parseInt(paintIndex) });
+            }
+
+            if (collection.items.length > 0) {
+                schema.collections[key] = collection;
+            }
+        }
+
+        for (const [id, kit] of Object.entries(this.section(itemsGame, 'sticker_kits'))) {
+            if (typeof kit !== 'object' || id === '0') continue;
+
+            const itemName = (kit.item_name as string) ?? '';
+            const name = translate(itemName);
+            if (/^#spraykit/i.test(itemName) || (kit.name as string)?.startsWith('spray_')) {
+                schema.graffiti[id] = { market_hash_name: `Sealed Graffiti | ${name}` };
+            } else if (/^#patchkit/i.test(itemName) || (kit.patch_material as string)) {
+                schema.stickers[id] = { market_hash_name: `Patch | ${name}` };
+            } else {
+                schema.stickers[id] = { market_hash_name: `Sticker | ${name}` };
+            }
+        }
+
+        for (const [id, keychain] of Object.entries(this.section(itemsGame, 'keychain_definitions'))) {
+            if (typeof keychain !== 'object') continue;
+            schema.keychains[id] = { market_hash_name: `Charm | ${translate(keychain.loc_name)}` };
+        }
+
+        this.logger.log(
+            `Built schema with ${Object.keys(schema.weapons).length} weapons, ` +
+            `${Object.keys(schema.stickers).length} stickers, ${Object.keys(schema.collections).length} collections`
+        );
+        return schema;
+    }
+
+    private buildRarities(itemsGame: KeyValues, translate: (key?: string | KeyValues) => string): Record<string, Rarity> {
+        const colors = this.section(itemsGame, 'colors');
+        const rarities: Record<string, Rarity> = {};
+
+        for (const rarity of Object.values(this.section(itemsGame, 'rarities'))) {
+            if (typeof rarity !== 'object' || rarity.value === undefined) continue;
+
+            const color = this.section(colors, rarity.color as string);
+            rarities[rarity.value as string] = {
+                name: translate(rarity.loc_key),
+                weapon_name: translate(rarity.loc_key_weapon),
+                character_name: translate(rarity.loc_key_character),
+                color: color.hex_color as string,
+            };
+        }
+
+        return rarities;
+    }
+
+    /**
+     * Flatten an item with its prefabs, the item's own keys win over inherited ones.
+     * The names of all prefabs involved are kept in prefab_chain, padded with spaces for lookups.
+     */
+    private resolvePrefabs(item: KeyValues, prefabs: KeyValues, depth = 0): KeyValues {
+        let resolved: KeyValues = { prefab_chain: ' ' };
+
+        if (typeof item.prefab === 'string' && depth < 16) {
+            for (const name of item.prefab.split(' ').filter(Boolean)) {
+                const prefab = prefabs[name];
+                if (typeof prefab !== 'object') continue;
+
+                const parent = this.resolvePrefabs(prefab, prefabs, depth + 1);
+                resolved = { ...resolved, ...parent, prefab_chain: `${resolved.prefab_chain}${name}${parent.prefab_chain}` };
+            }
+        }
+
+        return { ...resolved, ...item, prefab_chain: resolved.prefab_chain };
+    }
+
+    private parseTokens(englishText: string): Record<string, string> {
+        const lang = this.sectionIgnoreCase(parseKeyValues(englishText), 'lang');
+        const tokens: Record<string, string> = {};
+
+        for (const [key, value] of Object.entries(this.sectionIgnoreCase(lang, 'tokens'))) {
+            if (typeof value === 'string') {
+                tokens[key.toLowerCase()] = value;
+            }
+        }
+
+        return tokens;
+    }
+
+    /**
+     * The localization files are shipped as UTF-16 LE, items_game.txt as UTF-8
+     */
+    private readGameFile(file: string): string {
+        const buffer = fs.readFileSync(file);
+        if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+            return buffer.toString('utf16le', 2);
+        }
+        return buffer.toString('utf8').replace(/^\uFEFF/, '');
+    }
+
+    private sectionIgnoreCase(parent: KeyValues, key: string): KeyValues {
+        const match = Object.keys(parent).find(name => name.toLowerCase() === key);
+        return this.section(parent, match);
+    }
+
+    private section(parent: KeyValues | undefined, key: string): KeyValues {
+        const value = parent?.[key];
+        return typeof value === 'object' ? value : {};
+    }
+}
@@ -0,0 +1,200 @@
+import { HttpService } from '@nestjs/axios';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { firstValueFrom } from 'rxjs';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Schema } from './interfaces/schema.interface';
+import { SchemaBuilderService } from './schema-builder/schema-builder.service';
+
+interface ActiveSchema {
+    schema: Schema;
+    version: string;
+    source: 'snapshot' | 'remote' | 'game';
+    loadedAt: Date;
+}
+
+@Injectable()
+export class SchemaService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(SchemaService.name);
+    // Snapshots shipped with the code, never written to
+    private readonly BUNDLED_DIR = 'static/schema';
+    // Snapshots written at runtime, keep this on a volume so refreshes survive a new image
+    private readonly SNAPSHOT_DIR = process.env.SCHEMA_SNAPSHOT_DIR || 'snapshots/schema';
+    private readonly SNAPSHOT_KEEP = parseInt(process.env.SCHEMA_SNAPSHOT_KEEP || '5');
+    private readonly SOURCE = process.env.SCHEMA_SOURCE === 'game' ? 'game' : 'remote';
+    private readonly REMOTE_URL = process.env.SCHEMA_URL || 'https://csfloat.com/api/v1/schema';
+    private readonly REFRESH_INTERVAL = parseInt(process.env.SCHEMA_REFRESH_INTERVAL || '0');
+
+    private active: ActiveSchema;
+    private refreshTimer: NodeJS.Timeout;
+
+    constructor(
+        private httpService: HttpService,
+        private schemaBuilder: SchemaBuilderService,
+    ) { }
+
+    async onModuleInit() {
+        // The game files are local, so they are preferred over a snapshot that may be outdated
+        const loaded = (this.SOURCE === 'game' && await this.refresh()) || this.loadLatestSnapshot();
+
+        if (!loaded && this.SOURCE === 'game') {
+            throw new Error('Failed to load schema');
+        }
+
+        if (!loaded) {
+            // First boot without a snapshot, fetching the remote schema is the only option left
+            this.logger.warn(`No schema snapshot found in ${this.SNAPSHOT_DIR} or ${this.BUNDLED_DIR}, fetching ${this.REMOTE_URL}`);
+            if (!(await this.refresh())) {
+                throw new Error('Failed to load schema');
+            }
+        }
+
+        if (this.REFRESH_INTERVAL > 0) {
+            this.refreshTimer = setInterval(() => this.refresh(), this.REFRESH_INTERVAL);
+        }
+    }
+
+    onModuleDestroy() {
+        clearInterval(this.refreshTimer);
+    }
+
+    public get schema(): Schema {
+        return this.active?.schema;
+    }
+
+    public getInfo() {
+        return {
+            version: this.active?.version,
+            source: this.active?.source,
+            loadedAt: this.active?.loadedAt,
+            refreshSource: this.SOURCE,
+            refreshInterval: this.REFRESH_INTERVAL || null,
+            counts: this.active ? {
+                weapons: Object.keys(this.active.schema.weapons).length,
+                stickers: Object.keys(this.active.schema.stickers).length,
+                keychains: Object.keys(this.active.schema.keychains).length,
+                agents: Object.keys(this.active.schema.agents).length,
+                graffiti: Object.keys(this.active.schema.graffiti).length,
+                rarities: Object.keys(this.active.schema.rarities ?? {}).length,
+                collections: Object.keys(this.active.schema.collections ?? {}).length,
+            } : undefined,
+        };
+    }
+
+    /**
+     * Rebuild or fetch the schema, store it as a new snapshot and swap it in when it is valid and changed
+     */
+    public async refresh(): Promise<boolean> {
+        if (this.SOURCE === 'game') {
+            try {
+                return this.activate(this.schemaBuilder.buildFromDisk(), 'game');
+            } catch (error) {
+                this.logger.error(`Failed to build schema from the game files: ${error.message}`);
+                return false;
+            }
+        }
+
+        try {
+            const response = await firstValueFrom(
+                this.httpService.get<Schema>(this.REMOTE_URL, { timeout: 30000 }),
+            );
+            return this.activate(response.data, 'remote');
+        } catch (error) {
+            this.logger.error(`Failed to refresh schema from ${this.REMOTE_URL}: ${error.message}`);
+            return false;
+        }
+    }
+
+    /**
+     * Validate a schema and make it the active one, writing a snapshot if it is new
+     */
+    public activate(schema: Schema, source: ActiveSchema['source'], version?: string): boolean {
+        if (!this.isValid(schema)) {
+            this.logger.error(`Rejected invalid schema from ${source}`);
+            return false;
+        }
+
+        const hash = this.hash(schema);
+        if (this.active && this.active.version.endsWith(hash)) {
+            this.logger.debug('Schema is unchanged');
+            return true;
+        }
+
+        if (!version) {
+            version = `${new Date().toISOString().replace(/\D/g, '').substring(0, 14)}-${hash}`;
+            this.writeSnapshot(version, schema);
+        }
+
+        // A single assignment, requests always see either the old or the new schema
+        this.active = { schema, version, source, loadedAt: new Date() };
+        this.logger.log(`Schema ${version} loaded from ${source}`);
+        return true;
+    }
+
+    private loadLatestSnapshot(): boolean {
+        // Runtime and bundled snapshots together, whichever is newest wins
+        const files = [...this.listSnapshots(this.SNAPSHOT_DIR), ...this.listSnapshots(this.BUNDLED_DIR)]
+            .sort((a, b) => path.basename(a).localeCompare(path.basename(b)));
+
+        for (const file of files.reverse()) {
+            try {
+                const schema = JSON.parse(fs.readFileSync(file, 'utf8'));
+                if (this.activate(schema, 'snapshot', this.versionOf(path.basename(file)))) {
+                    return true;
+                }
+            } catch (error) {
+                this.logger.error(`Failed to read schema snapshot ${file}: ${error.message}`);
+            }
+        }
+        return false;
+    }
+
+    private writeSnapshot(version: string, schema: Schema): void {
+        try {
+            fs.mkdirSync(this.SNAPSHOT_DIR, { recursive: true });
+
+            // Write to a temporary file first so a crash never leaves a truncated snapshot behind
+            const file = path.join(this.SNAPSHOT_DIR, `schema-${version}.json`);
+            fs.writeFileSync(`${file}.tmp`, JSON.stringify(schema));
+            fs.renameSync(`${file}.tmp`, file);
+
+            for (const old of this.listSnapshots(this.SNAPSHOT_DIR).slice(0, -this.SNAPSHOT_KEEP)) {
+                fs.unlinkSync(old);
+            }
+        } catch (error) {
+            this.logger.error(`Failed to write schema snapshot ${version}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Snapshot paths in a directory sorted oldest first, the version starts with a timestamp
+     */
+    private listSnapshots(dir: string): string[] {
+        if (!fs.existsSync(dir)) {
+            return [];
+        }
+
+        return fs.readdirSync(dir)
+            .filter(file => /^schema-.+\.json$/.test(file))
+            .sort()
+            .map(file => path.join(dir, file));
+    }
+
+    private versionOf(file: string): string {
+        return file.replace(/^schema-/, '').replace(/\.json$/, '');
+    }
+
+    private isValid(schema: Schema): boolean {
+        return !!schema &&
+            ['weapons', 'stickers', 'agents', 'graffiti', 'keychains'].every(key =>
+                schema[key] && typeof schema[key] === 'object'
+            ) &&
+            Object.keys(schema.weapons).length > 0 &&
+            Object.keys(schema.stickers).length > 0;
+    }
+
+    private hash(schema: Schema): string {
+        return createHash('sha1').update(JSON.stringify(schema)).digest('hex').substring(0, 8);
+    }
+}
@@ -0,0 +1,196 @@
+import { HttpService } from '@nestjs/axios';
+import { HttpException, HttpStatus, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { LookupAddress, lookup } from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, isIP } from 'net';
+import { firstValueFrom } from 'rxjs';
+import { JobStatus } from 'src/schemas/job.schema';
+import { FormattedResponse } from './interfaces/schema.interface';
+import { JobService } from './job.service';
+
+export interface WebhookPayload {
+    jobId: string;
+    assetId: string;
+    status: JobStatus;
+    result?: FormattedResponse;
+    error?: string;
+}
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+const isBlockedAddress = (address: string): boolean => {
+    // IPv4-mapped IPv6 addresses are checked as the IPv4 address they map to
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (mapped) {
+        return blockedAddresses.check(mapped[1], 'ipv4');
+    }
+    return blockedAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+};
+
+@Injectable()
+export class WebhookService implements OnModuleInit {
+    private readonly logger = new Logger(WebhookService.name);
+    private readonly SECRET = process.env.WEBHOOK_SECRET || '';
+    private readonly ALLOW_PRIVATE = process.env.WEBHOOK_ALLOW_PRIVATE === 'true';
+    private readonly MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5');
+    private readonly RETRY_DELAY = parseInt(process.env.WEBHOOK_RETRY_DELAY || '1000');
+    private readonly TIMEOUT = parseInt(process.env.WEBHOOK_TIMEOUT || '5000');
+
+    // Checks the address a callback host resolves to when connecting, so DNS cannot point it elsewhere after validation
+    private readonly httpAgent = new http.Agent({ lookup: this.lookup.bind(this) });
+    private readonly httpsAgent = new https.Agent({ lookup: this.lookup.bind(this) });
+
+    constructor(
+        private readonly httpService: HttpService,
+        private readonly jobService: JobService,
+    ) { }
+
+    onModuleInit() {
+        if (!this.SECRET) {
+            this.logger.warn('WEBHOOK_SECRET is not set, requests with a callback URL are rejected');
+        }
+    }
+
+    /**
+     * Reject callback URLs that cannot be delivered safely, before a job is created for them
+     */
+    public async validateCallback(url: string): Promise<void> {
+        if (!this.SECRET) {
+            throw new HttpException('Callbacks are disabled, WEBHOOK_SECRET is not configured', HttpStatus.BAD_REQUEST);
+        }
+
+        const error = await this.checkHost(url);
+        if (error) {
+            throw new HttpException(`Invalid callback URL: ${error}`, HttpStatus.BAD_REQUEST);
+        }
+    }
+
+    /**
+     * POST the payload to the callback URL, retrying with exponential backoff until a 2xx is received
+     */
+    public async deliver(url: string, payload: WebhookPayload): Promise<boolean> {
+        const body = JSON.stringify(payload);
+
+        const hostError = this.SECRET ? await this.checkHost(url) : 'WEBHOOK_SECRET is not configured';
+        if (hostError) {
+            await this.jobService.recordDelivery(payload.jobId, { attempt: 0, error: hostError, deliveredAt: new Date() });
+            this.logger.error(`Not delivering webhook for job ${payload.jobId} to ${url}: ${hostError}`);
+            return false;
+        }
+
+        for (let attempt = 1; attempt <= this.MAX_ATTEMPTS; attempt++) {
+            const timestamp = Date.now().toString();
+            let statusCode: number | undefined;
+            let error: string | undefined;
+
+            try {
+                const response = await firstValueFrom(
+                    this.httpService.post(url, body, {
+                        timeout: this.TIMEOUT,
+                        headers: {
+                            'Content-Type': 'application/json',
+                            'X-Inspect-Timestamp': timestamp,
+                            'X-Inspect-Signature': this.sign(timestamp, body),
+                        },
+                        // Every status is handled below so non-2xx responses are retried, not thrown
+                        validateStatus: () => true,
+                        // A redirect could lead to an internal address
+                        maxRedirects: 0,
+                        httpAgent: this.httpAgent,
+                        httpsAgent: this.httpsAgent,
+                    }),
+                );
+                statusCode = response.status;
+            } catch (e) {
+                error = e.message;
+            }
+
+            await this.jobService.recordDelivery(payload.jobId, {
+                attempt,
+                statusCode,
+                error,
+                deliveredAt: new Date(),
+            });
+
+            if (statusCode >= 200 && statusCode < 300) {
+                return true;
+            }
+
+            this.logger.warn(`Webhook delivery ${attempt}/${this.MAX_ATTEMPTS} for job ${payload.jobId} failed: ${error ?? `HTTP ${statusCode}`}`);
+
+            if (attempt < this.MAX_ATTEMPTS) {
+                await new Promise(resolve => setTimeout(resolve, this.RETRY_DELAY * 2 ** (attempt - 1)));
+            }
+        }
+
+        this.logger.error(`Giving up on webhook delivery for job ${payload.jobId} to ${url}`);
+        return false;
+    }
+
+    /**
+     * Error message when the URL's host is or resolves to an internal address, undefined when it may be called
+     */
+    private async checkHost(url: string): Promise<string | undefined> {
+        let hostname: string;
+        try {
+            hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+        } catch (error) {
+            return 'malformed URL';
+        }
+
+        if (this.ALLOW_PRIVATE) {
+            return undefined;
+        }
+
+        let addresses: LookupAddress[];
+        try {
+            addresses = isIP(hostname)
+                ? [{ address: hostname, family: isIP(hostname) }]
+                : await new Promise((resolve, reject) =>
+                    lookup(hostname, { all: true }, (error, result) => error ? reject(error) : resolve(result)),
+                );
+        } catch (error) {
+            return `${hostname} does not resolve`;
+        }
+
+        const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+        return blocked ? `${hostname} points to the internal address ${blocked.address}` : undefined;
+    }
+
+    private lookup(hostname: string, options: any, callback: (...args: any[]) => void) {
+        lookup(hostname, options, (error, address: string | LookupAddress[], family?: number) => {
+            if (error) {
+                return callback(error, address, family);
+            }
+
+            const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+            const blocked = !this.ALLOW_PRIVATE && addresses.find(isBlockedAddress);
+            if (blocked) {
+                return callback(new Error(`${hostname} points to the internal address ${blocked}`), address, family);
+            }
+
+            callback(null, address, family);
+        });
+    }
+
+    /**
+     * HMAC-SHA256 over "<timestamp>.<body>" so receivers can reject replayed deliveries
+     */
+    private sign(timestamp: string, body: string): string {
+        return 'sha256=' + createHmac('sha256', this.SECRET).update(`${timestamp}.${body}`).digest('hex');
+    }
+}
@@ -6,6 +6,7 @@ import { createHash } from 'crypto';
 import { Worker } from 'worker_threads';
 import { spawnWorker } from './spawn-worker';
 import { BotStatus } from '../bot.class';
+import { EventEmitter } from 'events';
 
 interface WorkerInfo {
     id: number;
@@ -23,6 +24,8 @@ interface WorkerInfo {
         failedAccounts: number;
     };
     status: 'initializing' | 'ready' | 'error';
+    // Bots handed a request by the dispatcher that the worker has not reported busy yet
+    reservedBots: number;
 }
 
 interface InspectRequest {
@@ -35,10 +38,29 @@ interface InspectRequest {
     ms?: string;
     requestId: string;
     priority?: 'high' | 'normal' | 'low';
+    // Aborted once the caller stopped waiting, no retries are made after that
+    signal?: AbortSignal;
 }
 
+type Priority = 'high' | 'normal' | 'low';
+
+interface PendingDispatch {
+    assetId: string;
+    priority: Priority;
+    resolve: (worker: WorkerInfo) => void;
+    reject: (reason?: any) => void;
+    timeoutId?: NodeJS.Timeout;
+    onAbort?: () => void;
+}
+
+// Out of every 7 dispatches while all priorities are waiting, 4 go to high, 2 to normal and 1 to low
+const PRIORITY_WEIGHTS: Record<Priority, number> = { high: 4, normal: 2, low: 1 };
+
+// Error sent by a worker whose stats were stale when the request was dispatched to it
+const NO_READY_BOTS_ERROR = 'No bots are ready in this worker';
+
 @Injectable()
-export class WorkerManagerService implements OnModuleInit {
+export class WorkerManagerService extends EventEmitter implements OnModuleInit {
     private readonly logger = new Logger(WorkerManagerService.name);
     private bots: Map<string, Bot> = new Map();
     private accounts: string[] = [];
@@ -49,6 +71,11 @@ export class WorkerManagerService implements OnModuleInit {
 
     private inspectRequests: Map<string, InspectRequest> = new Map();
 
+    // Requests waiting for a ready bot, handed out by dispatchPending()
+    private pending: Record<Priority, PendingDispatch[]> = { high: [], normal: [], low: [] };
+    private dispatchCredits: Record<Priority, number> = { ...PRIORITY_WEIGHTS };
+    private readonly DISPATCH_TIMEOUT = parseInt(process.env.QUEUE_TIMEOUT || '10000');
+
     private success = 0;
     private failed = 0;
     private cached = 0;
@@ -222,7 +249,8 @@ export class WorkerManagerService implements OnModuleInit {
                     throttledAccounts: 0,
                     failedAccounts: 0
                 },
-                status: 'initializing'
+                status: 'initializing',
+                reservedBots: 0
             });
 
             // Set up event handlers
@@ -247,7 +275,7 @@ export class WorkerManagerService implements OnModuleInit {
                     this.handleInspectResult(message);
                     break;
                 case 'inspectError':
-                    this.handleInspectError(message);
+                    this.handleInspectError(message, workerId);
                     break;
                 case 'stats':
                     this.updateWorkerStats(workerId, message.stats);
@@ -306,6 +334,8 @@ export class WorkerManagerService implements OnModuleInit {
                 // Request fresh stats after bot initialization
                 workerInfo.worker.postMessage({ type: 'getStats' });
 
+                this.dispatchPending();
+
                 // this.logger.debug(`Worker ${workerId} marked as ready with at least one ready bot`);
             }
         }
@@ -341,6 +371,7 @@ export class WorkerManagerService implements OnModuleInit {
         if (workerInfo && status === 'ready') {
             workerInfo.status = 'ready';
             workerInfo.worker.postMessage({ type: 'getStats' });
+            this.dispatchPending();
         }
     }
     
@@ -415,10 +446,14 @@ export class WorkerManagerService implements OnModuleInit {
                     // Increment busy count, decrement ready count
                     if (workerInfo.stats.readyBots > 0) workerInfo.stats.readyBots--;
                     workerInfo.stats.busyBots++;
+                    // The reserved bot is now accounted for by the worker itself
+                    if (workerInfo.reservedBots > 0) workerInfo.reservedBots--;
                 } else if (status === 'ready') {
                     // Increment ready count, decrement busy count
                     workerInfo.stats.readyBots++;
                     workerInfo.stats.busyBots--;
+                    // A bot freed up, hand it the next waiting request
+                    this.dispatchPending();
                 } else if (status === 'cooldown') {
                     // Handle cooldown status
                     workerInfo.stats.cooldownBots++;
@@ -446,6 +481,9 @@ export class WorkerManagerService implements OnModuleInit {
     private handleInspectResult(message: any): void {
         const { workerId, assetId, result } = message;
 
+        // Broadcast every completed inspection, whether or not a caller is still waiting for it
+        this.emit('inspectResult', result);
+
         const request = this.inspectRequests.get(assetId);
         if (!request) {
             // this.logger.warn(`Received inspect result for unknown request: ${assetId}`);
@@ -464,7 +502,7 @@ export class WorkerManagerService implements OnModuleInit {
         }
     }
 
-    private handleInspectError(message: any): void {
+    private handleInspectError(message: any, workerId: number): void {
         const { requestId, assetId, error } = message;
 
         const request = this.inspectRequests.get(assetId);
@@ -473,6 +511,21 @@ export class WorkerManagerService implements OnModuleInit {
             return;
         }
 
+        if (error === NO_READY_BOTS_ERROR) {
+            // The worker's stats were stale, release the reservation and put the request back in line
+            const workerInfo = this.workers.find(w => w.id === workerId);
+            if (workerInfo && workerInfo.reservedBots > 0) workerInfo.reservedBots--;
+
+            clearTimeout(request.timeoutId);
+            this.inspectRequests.delete(assetId);
+
+            const { s, a, d, m } = request.inspectUrl;
+            this.executeInspection(s, a, d, m, request.requestId, request.retryCount || 0, request.priority, request.signal)
+                .then(request.resolve)
+                .catch(request.reject);
+            return;
+        }
+
         clearTimeout(request.timeoutId);
         this.trackInspectionFailure(assetId, Date.now() - request.startTime);
         request.reject(new Error(error));
@@ -508,6 +561,10 @@ export class WorkerManagerService implements OnModuleInit {
             if (stats.readyBots > 0 && workerInfo.status !== 'ready') {
                 this.updateWorkerStatus(workerId, 'ready');
                 // this.logger.debug(`Worker ${workerId} marked ready with ${stats.readyBots} ready bots`);
+            }
+
+            if (stats.readyBots > 0) {
+                this.dispatchPending();
             } else if (stats.readyBots === 0 && stats.totalBots > 0 && workerInfo.status === 'ready') {
                 // Still mark as ready but log a warning
                 // this.logger.warn(`Worker ${workerId} has no ready bots but status is ready`);
@@ -568,32 +625,13 @@ export class WorkerManagerService implements OnModuleInit {
         return readyBots;
     }
 
-    private async getAvailableWorker(): Promise<WorkerInfo | null> {
-        // Filter workers that are ready and have available bots
+    private getAvailableWorker(): WorkerInfo | null {
+        // Filter workers that are ready and have bots that are not already reserved
         const availableWorkers = this.workers.filter(w =>
-            w.status === 'ready' && w.stats.readyBots > 0
+            w.status === 'ready' && w.stats.readyBots - w.reservedBots > 0
         );
 
         if (availableWorkers.length === 0) {
-            // Log detailed information about all workers for debugging
-            // this.logger.warn(`No available workers found. Worker states:`);
-            /*
-            this.workers.forEach(w => {
-             // this.logger.warn(`Worker ${w.id}: status=${w.status}, readyBots=${w.stats.readyBots}, totalBots=${w.stats.totalBots}`);
-            });
-            */
-
-            // Refresh stats from all workers
-            this.workers.forEach(w => {
-                if (w.worker) {
-                    try {
-                        w.worker.postMessage({ type: 'getStats' });
-                    } catch (e) {
-                        // this.logger.error(`Error requesting stats from worker ${w.id}: ${e.message}`);
-                    }
-                }
-            });
-
             return null;
         }
 
@@ -607,7 +645,110 @@ export class WorkerManagerService implements OnModuleInit {
         return selectedWorker;
     }
 
-    public async inspectItem(s: string, a: string, d: string, m: string, priority: 'high' | 'normal' | 'low' = 'normal'): Promise<any> {
+    private refreshWorkerStats(): void {
+        this.workers.forEach(w => {
+            if (w.worker) {
+                try {
+                    w.worker.postMessage({ type: 'getStats' });
+                } catch (e) {
+                    // this.logger.error(`Error requesting stats from worker ${w.id}: ${e.message}`);
+                }
+            }
+        });
+    }
+
+    /**
+     * Hold a request in the priority queue until the dispatcher hands it a worker with a ready bot
+     */
+    private waitForWorker(assetId: string, priority: Priority, signal?: AbortSignal): Promise<WorkerInfo> {
+        return new Promise<WorkerInfo>((resolve, reject) => {
+            if (signal?.aborted) {
+                return reject(new Error('Inspection cancelled by the caller'));
+            }
+
+            const pending: PendingDispatch = {
+                assetId,
+                priority,
+                resolve: (worker) => {
+                    signal?.removeEventListener('abort', pending.onAbort);
+                    resolve(worker);
+                },
+                reject,
+            };
+
+            const drop = (error: Error) => {
+                clearTimeout(pending.timeoutId);
+                signal?.removeEventListener('abort', pending.onAbort);
+                const queue = this.pending[priority];
+                const index = queue.indexOf(pending);
+                if (index !== -1) {
+                    queue.splice(index, 1);
+                }
+                reject(error);
+            };
+
+            pending.timeoutId = setTimeout(() => drop(new Error('Inspection timed out waiting for an available bot')), this.DISPATCH_TIMEOUT);
+            pending.onAbort = () => drop(new Error('Inspection cancelled by the caller'));
+            signal?.addEventListener('abort', pending.onAbort, { once: true });
+
+            this.pending[priority].push(pending);
+            this.dispatchPending();
+
+            // Nothing could be dispatched, make sure our view of the workers is current
+            if (this.pending[priority].includes(pending)) {
+                this.refreshWorkerStats();
+            }
+        });
+    }
+
+    /**
+     * Hand waiting requests to workers for as long as there are unreserved ready bots
+     */
+    private dispatchPending(): void {
+        while (this.getPendingCount() > 0) {
+            const worker = this.getAvailableWorker();
+            if (!worker) {
+                return;
+            }
+
+            const next = this.takeNextPending();
+            clearTimeout(next.timeoutId);
+            worker.reservedBots++;
+            next.resolve(worker);
+        }
+    }
+
+    /**
+     * Weighted round-robin over the priorities so low priority requests still move during bursts
+     */
+    private takeNextPending(): PendingDispatch {
+        const waiting = (['high', 'normal', 'low'] as Priority[]).filter(p => this.pending[p].length > 0);
+
+        let priority = waiting.find(p => this.dispatchCredits[p] > 0);
+        if (!priority) {
+            this.dispatchCredits = { ...PRIORITY_WEIGHTS };
+            priority = waiting[0];
+        }
+
+        this.dispatchCredits[priority]--;
+        return this.pending[priority].shift();
+    }
+
+    private getPendingCount(): number {
+        return this.pending.high.length + this.pending.normal.length + this.pending.low.length;
+    }
+
+    /**
+     * Inspect an item, retrying with other bots on timeouts. Aborting the signal drops the request wherever it is waiting
+     */
+    public async inspectItem(
+        s: string,
+        a: string,
+        d: string,
+        m: string,
+        priority: 'high' | 'normal' | 'low' = 'normal',
+        signal?: AbortSignal,
+    ): Promise<any> {
         try {
             // Create a unique request ID
             const requestId = `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
@@ -616,7 +757,7 @@ export class WorkerManagerService implements OnModuleInit {
             const retryCount = 0;
 
             // Start the inspection with retry tracking
-            return this.executeInspection(s, a, d, m, requestId, retryCount, priority);
+            return this.executeInspection(s, a, d, m, requestId, retryCount, priority, signal);
         } catch (error) {
             // this.logger.error(`Error inspecting item: ${error.message}`);
             throw error;
@@ -630,63 +771,54 @@ export class WorkerManagerService implements OnModuleInit {
         m: string,
         requestId: string,
         retryCount: number,
-        priority: 'high' | 'normal' | 'low' = 'normal'
+        priority: 'high' | 'normal' | 'low' = 'normal',
+        signal?: AbortSignal,
     ): Promise<any> {
         const MAX_RETRIES = parseInt(process.env.MAX_INSPECT_RETRIES || '3');
 
-        try {
-            const worker = await this.getAvailableWorker();
-            if (!worker) {
-                throw new Error('No workers with available bots');
-            }
-
-            // Use a promise to wait for the inspect result
-            return new Promise<any>((resolve, reject) => {
-                // Create timeout to handle inspection timeouts
-                const timeoutId = setTimeout(() => {
-                    // Handle timeout with retry logic
-                    this.handleInspectionTimeout(s, a, d, m, requestId, retryCount, MAX_RETRIES, resolve, reject, priority);
-                }, 10000);
-
-                // Store the promise handlers and inspection data
-                this.inspectRequests.set(a, {
-                    resolve,
-                    reject,
-                    timeoutId,
-                    startTime: Date.now(),
-                    retryCount,
-                    inspectUrl: { s, a, d, m },
-                    ms: m !== '0' && m ? m : s,
-                    requestId,
-                    priority
-                });
+        const worker = await this.waitForWorker(a, priority, signal);
+
+        // Use a promise to wait for the inspect result
+        return new Promise<any>((resolve, reject) => {
+            // Create timeout to handle inspection timeouts
+            const timeoutId = setTimeout(() => {
+                // Handle timeout with retry logic
+                this.handleInspectionTimeout(s, a, d, m, requestId, retryCount, MAX_RETRIES, resolve, reject, priority);
+            }, 10000);
+
+            // Store the promise handlers and inspection data
+            const request: InspectRequest = {
+                resolve,
+                reject,
+                timeoutId,
+                startTime: Date.now(),
+                retryCount,
+                inspectUrl: { s, a, d, m },
+                ms: m !== '0' && m ? m : s,
+                requestId,
+                priority,
+                signal,
+            };
+            this.inspectRequests.set(a, request);
 
-                // Send the inspect request to the worker
-                worker.worker.postMessage({
-                    type: 'inspectItem',
-                    s, a, d, m,
-                    requestId,
-                    priority
-                });
+            // The bot keeps working on it, but a caller that gave up must not cause retries
+            signal?.addEventListener('abort', () => {
+                if (this.inspectRequests.get(a) === request) {
+                    clearTimeout(request.timeoutId);
+                    this.inspectRequests.delete(a);
+                    reject(new Error('Inspection cancelled by the caller'));
+                }
+            }, { once: true });
+
+            // Send the inspect request to the worker
+            this.emit('inspectDispatched', a);
+            worker.worker.postMessage({
+                type: 'inspectItem',
+                s, a, d, m,
+                requestId,
+                priority
             });
-        } catch (error) {
-            // this.logger.error(`Error during inspection attempt ${retryCount + 1}: ${error.message}`);
-
-            // If we still have retries left and this is a timeout/availability error, try again
-            if (retryCount < MAX_RETRIES &&
-                (error.message.includes('timed out') || error.message.includes('No workers with available bots'))) {
-                // this.logger.warn(`Retrying inspection for asset ${a} (attempt ${retryCount + 1}/${MAX_RETRIES})`);
-
-                // Wait a moment before retrying
-                await new Promise(resolve => setTimeout(resolve, 1000));
-
-                // Retry with incremented retry count
-                return this.executeInspection(s, a, d, m, requestId, retryCount + 1, priority);
-            }
-
-            // Otherwise, give up
-            throw error;
-        }
+        });
     }
 
     private handleInspectionTimeout(
@@ -716,7 +848,7 @@ export class WorkerManagerService implements OnModuleInit {
             this.inspectRequests.delete(assetId);
 
             // Try again with a different bot
-            this.executeInspection(s, a, d, m, requestId, retryCount + 1, priority)
+            this.executeInspection(s, a, d, m, requestId, retryCount + 1, priority, request.signal)
                 .then(result => {
                     this.incrementSuccessAfterRetry();
                     resolve(result);
@@ -797,6 +929,11 @@ export class WorkerManagerService implements OnModuleInit {
             reconnectingBots,
             totalBots,
             activeInspections,
+            pendingInspections: {
+                high: this.pending.high.length,
+                normal: this.pending.normal.length,
+                low: this.pending.low.length,
+            },
             botAvailabilityPercentage,
             // Reconnection tracking
             throttledAccounts,
@@ -828,6 +965,17 @@ export class WorkerManagerService implements OnModuleInit {
         };
     }
 
+    /**
+     * Per-worker bot counts as last reported by each worker thread
+     */
+    public getWorkerStats() {
+        return this.workers.map(w => ({
+            id: w.id,
+            status: w.status,
+            stats: w.stats,
+        }));
+    }
+
     private incrementRetriedInspections() {
         this.retriedInspections++;
     }
@@ -858,6 +1006,8 @@ export class WorkerManagerService implements OnModuleInit {
     private trackInspectionTime(assetId: string, duration: number, success: boolean) {
         const now = Date.now();
 
+        this.emit('inspectionTime', duration, success);
+
         // Add new record
         this.responseTimesHistory.push({
             timestamp: now,
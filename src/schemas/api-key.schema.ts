@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type ApiKeyDocument = ApiKey & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'inspect_api_keys'
+})
+export class ApiKey {
+  // SHA-256 of the key, the plain key is only shown once when it is created
+  @Prop({ required: true, index: true, unique: true })
+  hash: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  // Route paths this key may call, e.g. "/inspect" or "/jobs/:id". "*" allows every route
+  @Prop({ type: [String], default: ['*'] })
+  routes: string[];
+
+  @Prop({ type: Number, default: 60 })
+  requestsPerMinute: number;
+
+  // 0 disables the daily quota
+  @Prop({ type: Number, default: 0 })
+  dailyQuota: number;
+
+  @Prop({ type: String, enum: ['high', 'normal', 'low'], default: 'normal' })
+  maxPriority: 'high' | 'normal' | 'low';
+
+  @Prop({ default: true })
+  enabled: boolean;
+
+  @Prop({ type: Number, default: 0 })
+  dailyUsage: number;
+
+  // UTC day (YYYY-MM-DD) that dailyUsage belongs to
+  @Prop()
+  dailyUsageDate: string;
+
+  @Prop({ type: Date })
+  lastUsedAt: Date;
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
@@ -94,4 +94,5 @@ export const AssetSchema = SchemaFactory.createForClass(Asset);
 AssetSchema.index({ ms: 1, assetId: 1, d: 1, stickers: 1 }, { unique: true });
 AssetSchema.index({ paintIndex: 1, defIndex: 1, paintWear: 1, quality: 1, killeaterValue: 1 });
 AssetSchema.index({ paintWear: 1, paintIndex: 1, defIndex: 1 });
+AssetSchema.index({ defIndex: 1, paintIndex: 1, paintSeed: 1, updatedAt: -1 });
 
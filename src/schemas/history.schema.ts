@@ -39,9 +39,11 @@ export enum HistoryType {
   KEYCHAIN_CHANGED = 21,
 
   // Special Events
+  // Not emitted by the built-in classifiers: an item in a storage unit has no inspect link, so moving it in is never seen
   STORAGE_UNIT_STORED = 22,
   STORAGE_UNIT_RETRIEVED = 23,
   GIFT_RECEIVED = 24,
+  // Not emitted by the built-in classifiers: a gift is only seen in the recipient's inventory, which is GIFT_RECEIVED
   GIFT_SENT = 25,
 
   // Contract Events
@@ -90,6 +92,14 @@ export class History {
 
   @Prop({ type: [Object] })
   prevKeychains: StickerKeychain[];
+
+  @Prop({ maxlength: 64 })
+  customName: string;
+
+  @Prop({ maxlength: 64 })
+  prevCustomName: string;
+
+  createdAt?: Date;
 }
 
 export const HistorySchema = SchemaFactory.createForClass(History);
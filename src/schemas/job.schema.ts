@@ -0,0 +1,76 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { FormattedResponse } from 'src/modules/inspect/interfaces/schema.interface';
+
+export type JobDocument = Job & Document;
+
+export interface WebhookDelivery {
+  attempt: number;
+  statusCode?: number;
+  error?: string;
+  deliveredAt: Date;
+}
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  TIMED_OUT = 'timed-out',
+}
+
+@Schema({
+  timestamps: true,
+  collection: 'inspect_jobs'
+})
+export class Job {
+  @Prop({ required: true, type: Number, index: true })
+  assetId: number;
+
+  @Prop()
+  s: string;
+
+  @Prop()
+  m: string;
+
+  @Prop({ required: true })
+  d: string;
+
+  @Prop({ required: true, type: String, enum: JobStatus, index: true })
+  status: JobStatus;
+
+  @Prop({ type: String })
+  priority: 'high' | 'normal' | 'low';
+
+  @Prop({ type: Number, default: 0 })
+  attempts: number;
+
+  @Prop()
+  error: string;
+
+  @Prop({ type: Object })
+  result: FormattedResponse;
+
+  @Prop()
+  callback: string;
+
+  @Prop({ type: [Object], default: [] })
+  deliveries: WebhookDelivery[];
+
+  @Prop({ type: Date })
+  startedAt: Date;
+
+  @Prop({ type: Date })
+  finishedAt: Date;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const JobSchema = SchemaFactory.createForClass(Job);
+
+// Finished and abandoned jobs are removed automatically
+JobSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: parseInt(process.env.JOB_TTL || '86400') }
+);